@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'vitest'
+import { createMeetGrid, getGridItemDimensions, type MeetGridOptions } from './index'
+
+const base: MeetGridOptions = {
+  dimensions: { width: 1280, height: 720 },
+  count: 100,
+  aspectRatio: '16:9',
+  gap: 8,
+  layoutMode: 'gallery',
+  autoPageSize: true,
+}
+
+describe('autoPageSize', () => {
+  it('fits as many items per page as stay at minTileSize', () => {
+    const grid = createMeetGrid(base)
+    const pageSize = grid.pagination.pageSize!
+    const tile = (count: number) => getGridItemDimensions({ ...base, count })
+
+    expect(pageSize).toBeGreaterThan(1)
+    expect(tile(pageSize).width).toBeGreaterThanOrEqual(160)
+    expect(tile(pageSize).height).toBeGreaterThanOrEqual(90)
+    expect(tile(pageSize + 1).width).toBeLessThan(160)
+    expect(grid.pagination.enabled).toBe(true)
+    expect(grid.pagination.itemsOnPage).toBe(pageSize)
+    expect(grid.pagination.totalPages).toBe(Math.ceil(100 / pageSize))
+    expect(grid.width).toBeGreaterThanOrEqual(160)
+  })
+
+  it('follows an explicit minTileSize and takes precedence over maxItemsPerPage', () => {
+    const large = createMeetGrid({ ...base, minTileSize: { width: 400, height: 225 } })
+    const paged = createMeetGrid({ ...base, maxItemsPerPage: 2 })
+
+    expect(large.pagination.pageSize).toBe(9)
+    expect(large.width).toBeGreaterThanOrEqual(400)
+    expect(paged.pagination.pageSize).toBe(createMeetGrid(base).pagination.pageSize)
+  })
+
+  it('recomputes the page size when the container changes', () => {
+    const large = createMeetGrid(base).pagination.pageSize!
+    const small = createMeetGrid({ ...base, dimensions: { width: 640, height: 360 } }).pagination
+      .pageSize!
+
+    expect(small).toBeLessThan(large)
+  })
+
+  it('clamps currentPage to the resulting pages', () => {
+    const grid = createMeetGrid({ ...base, count: 20, currentPage: 50 })
+
+    expect(grid.pagination.currentPage).toBe(grid.pagination.totalPages - 1)
+  })
+
+  it('keeps at least one item per page', () => {
+    const grid = createMeetGrid({ ...base, dimensions: { width: 100, height: 60 } })
+
+    expect(grid.pagination.pageSize).toBe(1)
+    expect(grid.pagination.itemsOnPage).toBe(1)
+  })
+
+  it('does not paginate when everything fits', () => {
+    const grid = createMeetGrid({ ...base, count: 4 })
+
+    expect(grid.pagination.enabled).toBe(false)
+    expect(grid.pagination.itemsOnPage).toBe(4)
+  })
+})
@@ -0,0 +1,144 @@
+import { describe, expect, it } from 'vitest'
+import { createMeetGrid, type MeetGridOptions } from './index'
+
+const base: MeetGridOptions = {
+  dimensions: { width: 1280, height: 720 },
+  count: 8,
+  aspectRatio: '16:9',
+  gap: 8,
+  layoutMode: 'gallery',
+  hasVideo: [true, true, true, false, false, false, false, false],
+}
+
+const audio = [3, 4, 5, 6, 7]
+
+describe('audio bubbles', () => {
+  it('packs audio-only items as bubbles below the video gallery', () => {
+    const grid = createMeetGrid(base)
+    const lowestVideo = Math.max(
+      ...[0, 1, 2].map((i) => grid.getPosition(i).top + grid.getItemDimensions(i).height)
+    )
+
+    for (const index of audio) {
+      const bubble = grid.getBubble!(index)!
+      expect(bubble.radius * 2).toBeLessThanOrEqual(96)
+      expect(bubble.centerY - bubble.radius).toBeGreaterThan(lowestVideo)
+      expect(grid.getPosition(index)).toEqual({
+        top: bubble.centerY - bubble.radius,
+        left: bubble.centerX - bubble.radius,
+      })
+      expect(grid.getItemDimensions(index)).toEqual({
+        width: bubble.radius * 2,
+        height: bubble.radius * 2,
+      })
+    }
+    expect(grid.getBubble!(0)).toBeUndefined()
+  })
+
+  it('keeps bubbles apart', () => {
+    const grid = createMeetGrid({ ...base, hasVideo: [true, ...Array(19).fill(false)], count: 20 })
+
+    for (let a = 1; a < 20; a++) {
+      for (let b = a + 1; b < 20; b++) {
+        const ba = grid.getBubble!(a)!
+        const bb = grid.getBubble!(b)!
+        const distance = Math.hypot(ba.centerX - bb.centerX, ba.centerY - bb.centerY)
+        expect(distance).toBeGreaterThanOrEqual(ba.radius + bb.radius - 0.01)
+      }
+    }
+  })
+
+  it('follows bubbleSize and limits the bubble region to 40% of the container', () => {
+    const small = createMeetGrid({ ...base, bubbleSize: 48 })
+    const crowded = createMeetGrid({
+      ...base,
+      count: 200,
+      hasVideo: [true, ...Array(199).fill(false)],
+    })
+
+    expect(small.getBubble!(3)!.radius).toBe(24)
+    expect(crowded.getPosition(0).top + crowded.getItemDimensions(0).height).toBeGreaterThan(
+      704 * 0.6 - 8
+    )
+    for (let i = 1; i < 200; i++) {
+      expect(crowded.getPosition(i).top).toBeGreaterThanOrEqual(8 + 704 * 0.6 - 0.01)
+    }
+  })
+
+  it('fills the container with bubbles when nobody has video', () => {
+    const grid = createMeetGrid({ ...base, count: 3, hasVideo: [false, false, false] })
+    const bubble = grid.getBubble!(0)!
+
+    expect(bubble.radius * 2).toBeGreaterThan(96)
+    for (let i = 0; i < 3; i++) {
+      const { top, left } = grid.getPosition(i)
+      const { width, height } = grid.getItemDimensions(i)
+      expect(left).toBeGreaterThanOrEqual(8)
+      expect(top).toBeGreaterThanOrEqual(8)
+      expect(left + width).toBeLessThanOrEqual(1272 + 0.01)
+      expect(top + height).toBeLessThanOrEqual(712 + 0.01)
+    }
+  })
+
+  it('leaves the gallery alone when every item has video', () => {
+    const grid = createMeetGrid({ ...base, hasVideo: Array(8).fill(true) })
+    const gallery = createMeetGrid({ ...base, hasVideo: undefined })
+
+    expect(grid.getBubble).toBeUndefined()
+    expect(grid.getPosition(7)).toEqual(gallery.getPosition(7))
+  })
+
+  describe('paging', () => {
+    it('packs only the items of the current page', () => {
+      const first = createMeetGrid({ ...base, maxItemsPerPage: 4 })
+      const second = createMeetGrid({ ...base, maxItemsPerPage: 4, currentPage: 1 })
+
+      expect(first.pagination).toMatchObject({ enabled: true, totalPages: 2, itemsOnPage: 4 })
+      expect([0, 1, 2, 3].every((i) => first.isItemVisible(i))).toBe(true)
+      expect(first.isItemVisible(4)).toBe(false)
+      expect(first.getPosition(4)).toEqual({ top: -9999, left: -9999 })
+      expect(first.getBubble!(4)).toBeUndefined()
+
+      // The second page is audio only, so its bubbles fill the container
+      expect(second.isItemVisible(0)).toBe(false)
+      expect(second.getBubble!(4)!.radius * 2).toBeGreaterThan(96)
+    })
+
+    it('keeps sticky items on every page, as video tiles or bubbles', () => {
+      const grid = createMeetGrid({ ...base, maxItemsPerPage: 4, stickyIndices: [0, 7] })
+      const last = createMeetGrid({
+        ...base,
+        maxItemsPerPage: 4,
+        stickyIndices: [0, 7],
+        currentPage: 2,
+      })
+
+      expect(grid.pagination.pageIndices).toEqual([0, 7, 1, 2])
+      expect(last.pagination.pageIndices).toEqual([0, 7, 5, 6])
+      expect(last.getBubble!(0)).toBeUndefined()
+      expect(last.getBubble!(7)).toEqual(expect.objectContaining({ radius: 48 }))
+      expect(last.getItemDimensions(0).width).toBeGreaterThan(96)
+    })
+
+    it('caps the items at maxVisible and reports the rest as hidden', () => {
+      const grid = createMeetGrid({ ...base, maxVisible: 5 })
+
+      expect(grid.hiddenCount).toBe(4)
+      expect(grid.getLastVisibleOthersIndex()).toBe(4)
+      expect(grid.isItemVisible(4)).toBe(true)
+      expect(grid.isItemVisible(5)).toBe(false)
+      expect(grid.getBubble!(4)).toBeDefined()
+    })
+
+    it('gives every item a tile when scrollable', () => {
+      const grid = createMeetGrid({ ...base, scrollable: true, maxItemsPerPage: 4 })
+
+      expect(grid.getBubble).toBeUndefined()
+      expect(grid.scrollExtent).toBeDefined()
+      for (let i = 0; i < 8; i++) {
+        expect(grid.isItemVisible(i)).toBe(true)
+        expect(grid.getItemDimensions(i)).toEqual(grid.getItemDimensions(0))
+      }
+    })
+  })
+})
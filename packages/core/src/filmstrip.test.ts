@@ -0,0 +1,67 @@
+import { describe, expect, it } from 'vitest'
+import { createMeetGrid, type MeetGridOptions } from './index'
+
+const base: MeetGridOptions = {
+  dimensions: { width: 1280, height: 200 },
+  count: 10,
+  aspectRatio: '16:9',
+  gap: 8,
+  layoutMode: 'filmstrip',
+}
+
+describe('filmstrip layout', () => {
+  it('fills the cross axis and lines tiles up along the main axis', () => {
+    const grid = createMeetGrid(base)
+
+    expect(grid.height).toBe(184)
+    expect(grid.width).toBeCloseTo((184 * 16) / 9)
+    expect(grid.rows).toBe(1)
+    expect(grid.cols).toBe(10)
+    expect(grid.getPosition(0)).toEqual({ top: 8, left: 8 })
+    expect(grid.getPosition(1).left).toBeCloseTo(8 + grid.width + 8)
+    expect(grid.getPosition(1).top).toBe(8)
+  })
+
+  it('reports a scroll extent instead of shrinking tiles', () => {
+    const grid = createMeetGrid(base)
+    const content = 10 * grid.width + 9 * 8 + 16
+
+    expect(grid.scrollExtent!.width).toBeCloseTo(content)
+    expect(grid.scrollExtent!.height).toBe(200)
+    expect(grid.width).toBe(createMeetGrid({ ...base, count: 40 }).width)
+  })
+
+  it('scrolls an item to the start of the viewport, clamped to the end', () => {
+    const grid = createMeetGrid(base)
+    const maxScroll = grid.scrollExtent!.width - 1280
+
+    expect(grid.getScrollOffset!(0)).toEqual({ top: 0, left: 0 })
+    expect(grid.getScrollOffset!(2).left).toBeCloseTo(2 * (grid.width + 8))
+    expect(grid.getScrollOffset!(9).left).toBeCloseTo(maxScroll)
+  })
+
+  it('centers the strip when everything fits', () => {
+    const grid = createMeetGrid({ ...base, count: 2 })
+    const content = 2 * grid.width + 8 + 16
+
+    expect(grid.scrollExtent!.width).toBe(1280)
+    expect(grid.getPosition(0).left).toBeCloseTo((1280 - content) / 2 + 8)
+    expect(grid.getScrollOffset!(1).left).toBe(0)
+  })
+
+  it('runs vertically with filmstripOrientation', () => {
+    const grid = createMeetGrid({
+      ...base,
+      dimensions: { width: 300, height: 720 },
+      filmstripOrientation: 'vertical',
+    })
+
+    expect(grid.width).toBe(284)
+    expect(grid.height).toBeCloseTo((284 * 9) / 16)
+    expect(grid.cols).toBe(1)
+    expect(grid.rows).toBe(10)
+    expect(grid.getPosition(1)).toEqual({ top: 8 + grid.height + 8, left: 8 })
+    expect(grid.scrollExtent!.width).toBe(300)
+    expect(grid.getScrollOffset!(1).top).toBeCloseTo(grid.height + 8)
+  })
+})
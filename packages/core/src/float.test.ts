@@ -0,0 +1,67 @@
+import { describe, expect, it } from 'vitest'
+import { createMeetGrid, getFloatPositions, type MeetGridOptions } from './index'
+
+const base: MeetGridOptions = {
+  dimensions: { width: 1280, height: 720 },
+  gap: 8,
+  aspectRatio: '16:9',
+  count: 6,
+}
+
+const visibleItems = (options: MeetGridOptions) => {
+  const grid = createMeetGrid(options)
+  return Array.from({ length: options.count }, (_, i) => i).filter((i) => grid.isItemVisible(i))
+}
+
+describe('floatIndices', () => {
+  it('floats the items over a gallery of everyone else', () => {
+    const grid = createMeetGrid({ ...base, floatIndices: [0, 3] })
+    const rest = createMeetGrid({ ...base, count: 4 })
+
+    expect(grid.floatIndex).toBe(0)
+    expect(grid.floatItems!.map((float) => float.index)).toEqual([0, 3])
+    expect(grid.getPosition(1)).toEqual(rest.getPosition(0))
+    expect(grid.getPosition(5)).toEqual(rest.getPosition(3))
+  })
+
+  it('stacks floats sharing a corner', () => {
+    const grid = createMeetGrid({ ...base, floatIndices: [0, 1], floatWidth: 100, floatHeight: 80 })
+    const [first, second] = [grid.getPosition(0), grid.getPosition(1)]
+
+    expect(first.left).toBe(second.left)
+    expect(first.top - second.top).toBe(80 + 8)
+  })
+
+  it('reports the resting positions through getFloatPositions', () => {
+    const grid = createMeetGrid({ ...base, floatIndices: [2], floatAnchors: [, , 'top-left'] })
+    const positions = getFloatPositions(base.dimensions, grid.floatItems!, { gap: 8 })
+    expect(positions.get(2)).toEqual({ top: 12, left: 12 })
+    expect(grid.getPosition(2)).toEqual(positions.get(2))
+  })
+
+  it('keeps the stage members of stage mode', () => {
+    const options: MeetGridOptions = { ...base, layoutMode: 'stage', stageIndices: [4, 5] }
+    expect(visibleItems({ ...options, floatIndices: [0] })).toEqual([0, 4, 5])
+    expect(createMeetGrid({ ...options, floatIndices: [0] }).audienceCount).toBe(3)
+  })
+
+  it('keeps the template areas of template mode', () => {
+    const options: MeetGridOptions = {
+      ...base,
+      layoutMode: 'template',
+      template: 'a b',
+      templateAreas: { a: [2], b: [1] },
+    }
+    const plain = createMeetGrid(options)
+    const grid = createMeetGrid({ ...options, floatIndices: [0] })
+
+    expect(grid.getPosition(2)).toEqual(plain.getPosition(2))
+    expect(grid.getPosition(1)).toEqual(plain.getPosition(1))
+  })
+
+  it('keeps the pinned item', () => {
+    const grid = createMeetGrid({ ...base, pinnedIndex: 4, floatIndices: [0] })
+    expect(grid.isMainItem(4)).toBe(true)
+    expect(grid.isMainItem(3)).toBe(false)
+  })
+})
@@ -0,0 +1,159 @@
+import { describe, expect, it } from 'vitest'
+import {
+  createFreeformLayout,
+  createMeetGrid,
+  parseFreeformLayout,
+  serializeFreeformLayout,
+  snapFreeformRect,
+  updateFreeformItem,
+  type MeetGridOptions,
+} from './index'
+
+const dimensions = { width: 1000, height: 500 }
+const base: MeetGridOptions = {
+  dimensions,
+  count: 3,
+  aspectRatio: '16:9',
+  gap: 8,
+  layoutMode: 'freeform',
+}
+
+describe('freeform layout state', () => {
+  it('stores rects normalized to the container and brings the item to the front', () => {
+    let state = createFreeformLayout()
+    state = updateFreeformItem(
+      state,
+      0,
+      { top: 50, left: 100, width: 400, height: 250 },
+      dimensions
+    )
+    state = updateFreeformItem(state, 2, { top: 0, left: 0, width: 200, height: 100 }, dimensions)
+
+    expect(state.items[0]).toEqual({ x: 0.1, y: 0.1, width: 0.4, height: 0.5, zIndex: 1 })
+    expect(state.items[2].zIndex).toBe(2)
+    expect(
+      updateFreeformItem(state, 0, { top: 0, left: 0, width: 100, height: 100 }, dimensions)
+        .items[0].zIndex
+    ).toBe(3)
+    expect(
+      updateFreeformItem(state, 2, { top: 0, left: 0, width: 100, height: 100 }, dimensions)
+        .items[2].zIndex
+    ).toBe(2)
+  })
+
+  it('does not mutate the input state', () => {
+    const state = createFreeformLayout()
+    updateFreeformItem(state, 0, { top: 0, left: 0, width: 100, height: 100 }, dimensions)
+
+    expect(state.items).toEqual({})
+  })
+
+  it('round-trips through serialize and parse', () => {
+    const state = updateFreeformItem(
+      createFreeformLayout(),
+      1,
+      { top: 10, left: 20, width: 300, height: 200 },
+      dimensions
+    )
+
+    expect(parseFreeformLayout(serializeFreeformLayout(state))).toEqual(state)
+  })
+
+  it('rejects invalid serialized layouts', () => {
+    const message = 'meet-layout-grid: Invalid freeform layout provided'
+
+    expect(() => parseFreeformLayout('not json')).toThrow(message)
+    expect(() => parseFreeformLayout('{"version":2,"items":{}}')).toThrow(message)
+    expect(() => parseFreeformLayout('{"version":1,"items":null}')).toThrow(message)
+    expect(() =>
+      parseFreeformLayout(
+        '{"version":1,"items":{"0":{"x":0,"y":0,"width":"1","height":1,"zIndex":1}}}'
+      )
+    ).toThrow(message)
+  })
+})
+
+describe('snapFreeformRect', () => {
+  const other = { top: 100, left: 100, width: 200, height: 150 }
+
+  it('snaps a moved rect to the container edges, inset by gap', () => {
+    const snapped = snapFreeformRect(
+      { top: 15, left: 694, width: 300, height: 200 },
+      { dimensions, gap: 8 }
+    )
+
+    expect(snapped).toEqual({ top: 8, left: 692, width: 300, height: 200 })
+  })
+
+  it('snaps a moved rect next to and in line with other items', () => {
+    const snapped = snapFreeformRect(
+      { top: 105, left: 315, width: 100, height: 100 },
+      { dimensions, gap: 8, others: [other] }
+    )
+
+    expect(snapped).toEqual({ top: 100, left: 308, width: 100, height: 100 })
+  })
+
+  it('snaps the right and bottom edges when resizing', () => {
+    const snapped = snapFreeformRect(
+      { top: 300, left: 500, width: 495, height: 190 },
+      { dimensions, gap: 8, mode: 'resize' }
+    )
+
+    expect(snapped).toEqual({ top: 300, left: 500, width: 492, height: 192 })
+  })
+
+  it('leaves rects outside the threshold alone and clamps to the container and minimum size', () => {
+    expect(
+      snapFreeformRect({ top: 200, left: 500, width: 100, height: 100 }, { dimensions, gap: 8 })
+    ).toEqual({ top: 200, left: 500, width: 100, height: 100 })
+    expect(
+      snapFreeformRect(
+        { top: 480, left: -50, width: 10, height: 10 },
+        { dimensions, mode: 'resize', threshold: 0 }
+      )
+    ).toEqual({ top: 452, left: 0, width: 48, height: 48 })
+  })
+})
+
+describe('freeform layout', () => {
+  it('scales stored rects to the container and reports their stacking order', () => {
+    const freeformLayout = updateFreeformItem(
+      createFreeformLayout(),
+      1,
+      { top: 50, left: 100, width: 400, height: 250 },
+      dimensions
+    )
+    const grid = createMeetGrid({
+      ...base,
+      dimensions: { width: 2000, height: 1000 },
+      freeformLayout,
+    })
+
+    expect(grid.getPosition(1)).toEqual({ top: 100, left: 200 })
+    expect(grid.getItemDimensions(1)).toEqual({ width: 800, height: 500 })
+    expect(grid.getItemZIndex!(1)).toBe(1)
+  })
+
+  it('gives items without a stored rect their gallery position', () => {
+    const gallery = createMeetGrid({ ...base, layoutMode: 'gallery' })
+    const grid = createMeetGrid({ ...base, freeformLayout: createFreeformLayout() })
+
+    expect(grid.getPosition(2)).toEqual(gallery.getPosition(2))
+    expect(grid.getItemDimensions(2)).toEqual(gallery.getItemDimensions(2))
+    expect(grid.getItemZIndex!(2)).toBe(0)
+  })
+
+  it('keeps stored rects inside the container', () => {
+    const grid = createMeetGrid({
+      ...base,
+      freeformLayout: {
+        version: 1,
+        items: { 0: { x: 0.9, y: -0.2, width: 0.5, height: 1.5, zIndex: 1 } },
+      },
+    })
+
+    expect(grid.getPosition(0)).toEqual({ top: 0, left: 500 })
+    expect(grid.getItemDimensions(0)).toEqual({ width: 500, height: 500 })
+  })
+})
@@ -0,0 +1,131 @@
+import { describe, expect, it } from 'vitest'
+import { createMeetGrid, type GridRect, type MeetGridOptions } from './index'
+
+const base: MeetGridOptions = {
+  dimensions: { width: 1280, height: 720 },
+  count: 8,
+  aspectRatio: '16:9',
+  gap: 8,
+  layoutMode: 'grouped',
+  groups: [
+    { id: 'a', label: 'Room A', indices: [0, 1, 2, 3, 4] },
+    { id: 'b', label: 'Room B', indices: [5, 6] },
+  ],
+}
+
+const contains = (outer: GridRect, inner: GridRect) =>
+  inner.left >= outer.left - 0.01 &&
+  inner.top >= outer.top - 0.01 &&
+  inner.left + inner.width <= outer.left + outer.width + 0.01 &&
+  inner.top + inner.height <= outer.top + outer.height + 0.01
+
+describe('grouped layout', () => {
+  it('gives each group its own region and keeps its items inside it', () => {
+    const grid = createMeetGrid(base)
+    const [a, b] = grid.groups!
+
+    expect(grid.groups!.map((group) => [group.id, group.label])).toEqual([
+      ['a', 'Room A'],
+      ['b', 'Room B'],
+    ])
+    for (const [group, indices] of [
+      [a, [0, 1, 2, 3, 4]],
+      [b, [5, 6]],
+    ] as const) {
+      for (const index of indices) {
+        const rect = { ...grid.getPosition(index), ...grid.getItemDimensions(index) }
+        expect(contains(group.bounds, rect)).toBe(true)
+      }
+    }
+  })
+
+  it('sizes regions in a row by their item count', () => {
+    const grid = createMeetGrid({ ...base, dimensions: { width: 2400, height: 400 } })
+    const [a, b] = grid.groups!
+
+    expect(a.bounds.top).toBe(b.bounds.top)
+    expect(a.bounds.width / b.bounds.width).toBeCloseTo(5 / 2)
+  })
+
+  it('reports the arrangement of the regions as rows and cols', () => {
+    const wide = createMeetGrid({ ...base, dimensions: { width: 2400, height: 400 } })
+    const tall = createMeetGrid({ ...base, dimensions: { width: 400, height: 1600 } })
+    const four = createMeetGrid({
+      ...base,
+      dimensions: { width: 1000, height: 1000 },
+      count: 8,
+      groups: [0, 1, 2, 3].map((g) => ({ id: `${g}`, indices: [2 * g, 2 * g + 1] })),
+    })
+    const shapeOf = (grid: typeof wide) => {
+      const perRow = new Map<number, number>()
+      for (const { bounds } of grid.groups!)
+        perRow.set(bounds.top, (perRow.get(bounds.top) ?? 0) + 1)
+      return { rows: perRow.size, cols: Math.max(...perRow.values()) }
+    }
+
+    expect([wide.rows, wide.cols]).toEqual([1, 2])
+    expect([tall.rows, tall.cols]).toEqual([2, 1])
+    expect([four.rows, four.cols]).toEqual([2, 2])
+    for (const grid of [wide, tall, four]) {
+      expect({ rows: grid.rows, cols: grid.cols }).toEqual(shapeOf(grid))
+    }
+  })
+
+  it('hides items that belong to no group', () => {
+    const grid = createMeetGrid(base)
+
+    expect(grid.isItemVisible(7)).toBe(false)
+    expect(grid.getPosition(7)).toEqual({ top: -9999, left: -9999 })
+    expect(grid.pagination.itemsOnPage).toBe(7)
+  })
+
+  it('assigns an item listed twice to the first group only', () => {
+    const grid = createMeetGrid({
+      ...base,
+      groups: [
+        { id: 'a', indices: [0, 1] },
+        { id: 'b', indices: [1, 2] },
+      ],
+    })
+    const [a, b] = grid.groups!
+    const rect = (index: number) => ({
+      ...grid.getPosition(index),
+      ...grid.getItemDimensions(index),
+    })
+
+    expect(contains(a.bounds, rect(1))).toBe(true)
+    expect(contains(b.bounds, rect(1))).toBe(false)
+  })
+
+  it('reserves a header band above the items', () => {
+    const grid = createMeetGrid({ ...base, groupHeaderHeight: 32 })
+
+    for (const group of grid.groups!) {
+      expect(group.headerBounds).toEqual({
+        top: group.bounds.top,
+        left: group.bounds.left,
+        width: group.bounds.width,
+        height: 32,
+      })
+    }
+    expect(grid.getPosition(0).top).toBeGreaterThanOrEqual(grid.groups![0].bounds.top + 32 + 8)
+    expect(createMeetGrid(base).groups![0].headerBounds).toBeUndefined()
+  })
+
+  it('keeps a region for an empty group', () => {
+    const grid = createMeetGrid({
+      ...base,
+      groups: [...base.groups!, { id: 'empty', indices: [] }],
+    })
+
+    expect(grid.groups).toHaveLength(3)
+    expect(grid.groups![2].bounds.width).toBeGreaterThan(0)
+  })
+
+  it('returns an empty result without groups', () => {
+    const grid = createMeetGrid({ ...base, groups: [] })
+
+    expect(grid.groups).toEqual([])
+    expect(grid.isItemVisible(0)).toBe(false)
+  })
+})
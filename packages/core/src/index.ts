@@ -19,11 +19,191 @@ export interface Position {
 }
 
 /**
- * Layout modes for the grid
- * - gallery: Flexible grid that fills all available space. Supports pin mode with pinnedIndex.
- * - spotlight: Single participant in focus, others hidden
+ * Rectangle inside the container (position + size)
  */
-export type LayoutMode = 'gallery' | 'spotlight'
+export interface GridRect extends Position, GridDimensions {}
+
+/**
+ * Space per edge in pixels (outer padding around the tiles, or chrome inside a tile)
+ */
+export interface GridPadding {
+  top: number
+  right: number
+  bottom: number
+  left: number
+}
+
+/**
+ * How an incomplete last row is laid out
+ * - 'center': centred under the rows above
+ * - 'start' / 'end': aligned with the first / last column
+ * - 'stretch': tiles widened to fill the row
+ * - 'spread': items redistributed so rows differ by at most one (10 in four columns →
+ *   4 + 3 + 3, not 4 + 4 + 2); the column count and tile size are unchanged
+ */
+export type LastRowAlign = 'center' | 'start' | 'end' | 'stretch' | 'spread'
+
+/**
+ * Registry of layout mode names.
+ * Augment it (declaration merging) to make custom modes added with registerLayoutMode type-check.
+ *
+ * @example
+ * declare module '@thangdevalone/meeting-grid-layout-core' {
+ *   interface LayoutModeRegistry {
+ *     honeycomb: true
+ *   }
+ * }
+ */
+export interface LayoutModeRegistry {
+  /** Flexible grid that fills all available space. Supports pin mode with pinnedIndex. */
+  gallery: true
+  /** Single participant in focus, others hidden */
+  spotlight: true
+  /** Content shares fitted at their own ratio, presenter and speakers in the space left over */
+  presentation: true
+  /** Single scrollable row or column of fixed-ratio tiles */
+  filmstrip: true
+  /** Only stage members are laid out (gallery rules), everyone else is audience */
+  stage: true
+  /** Container partitioned into labelled group regions, each running the gallery algorithm */
+  grouped: true
+  /** Bespoke arrangement described by a grid-template-areas style template */
+  template: true
+  /** User-arranged tiles; positions come from a persisted FreeformLayoutState */
+  freeform: true
+  /** Card deck for small screens: one full-size item with the next few peeking behind */
+  stack: true
+  /** Items sit in the seats of a scene (Together-mode style) over a background */
+  scene: true
+}
+
+/**
+ * Layout modes for the grid (built-in modes plus any registered through LayoutModeRegistry)
+ */
+export type LayoutMode = Extract<keyof LayoutModeRegistry, string>
+
+/**
+ * A group of items for 'grouped' mode (breakout room, team, etc.)
+ */
+export interface GridGroup {
+  /** Unique group id */
+  id: string
+  /** Optional label rendered in the group header */
+  label?: string
+  /** Indices of the items in this group */
+  indices: number[]
+}
+
+/**
+ * Layout template for 'template' mode (JSON form).
+ * Works like CSS grid-template-areas: repeat a name across cells to span them, '.' leaves a cell empty.
+ *
+ * @example
+ * {
+ *   areas: [
+ *     ['host', 'host', 'guest1'],
+ *     ['host', 'host', 'guest2'],
+ *     ['strip', 'strip', 'strip'],
+ *   ],
+ *   rows: [2, 2, 1], // optional fr sizes, defaults to equal
+ * }
+ */
+export interface LayoutTemplate {
+  /** Area name per cell, row by row */
+  areas: string[][]
+  /** Relative row sizes (fr units), one per row */
+  rows?: number[]
+  /** Relative column sizes (fr units), one per column */
+  columns?: number[]
+}
+
+/**
+ * A named area resolved from a layout template (cell coordinates, 0-based)
+ */
+export interface TemplateArea {
+  name: string
+  row: number
+  col: number
+  rowSpan: number
+  colSpan: number
+}
+
+/**
+ * Stored rectangle of a freeform item, normalized to the container (0–1)
+ */
+export interface FreeformItemState {
+  /** Left edge as a fraction of container width */
+  x: number
+  /** Top edge as a fraction of container height */
+  y: number
+  /** Width as a fraction of container width */
+  width: number
+  /** Height as a fraction of container height */
+  height: number
+  /** Stacking order (higher is on top) */
+  zIndex: number
+}
+
+/**
+ * User-editable layout state for 'freeform' mode.
+ * Rects are normalized, so the layout reflows proportionally when the container resizes.
+ * The state is plain JSON: persist it with serializeFreeformLayout / parseFreeformLayout.
+ */
+export interface FreeformLayoutState {
+  version: 1
+  /** Item rects keyed by item index */
+  items: Record<string, FreeformItemState>
+}
+
+/**
+ * Seat in a scene, normalized to the scene (0–1)
+ */
+export interface SceneSeat {
+  x: number
+  y: number
+  width: number
+  height: number
+  /** Stacking order (higher is in front); defaults to the seat's index */
+  zIndex?: number
+}
+
+/**
+ * Scene description for 'scene' mode.
+ * Items are mapped to seats in order; the scene keeps its own aspect ratio.
+ * @example
+ * {
+ *   width: 1920,
+ *   height: 1080,
+ *   background: '/scenes/auditorium.png',
+ *   seats: [
+ *     { x: 0.1, y: 0.55, width: 0.15, height: 0.3, zIndex: 2 },
+ *     { x: 0.3, y: 0.35, width: 0.12, height: 0.24, zIndex: 1 },
+ *   ],
+ * }
+ */
+export interface LayoutScene {
+  /** Intrinsic scene width (any unit; only the ratio to height matters) */
+  width: number
+  /** Intrinsic scene height */
+  height: number
+  seats: SceneSeat[]
+  /** Background image URL, rendered behind the seats by the bindings */
+  background?: string
+}
+
+/**
+ * Bounds of a group region, returned by 'grouped' mode
+ */
+export interface GroupBounds {
+  /** Group id */
+  id: string
+  /** Group label */
+  label?: string
+  /** Bounds of the whole group region (header included) */
+  bounds: GridRect
+  /** Bounds of the header band (only set when groupHeaderHeight > 0) */
+  headerBounds?: GridRect
+}
 
 /**
  * Options for creating a basic grid
@@ -35,8 +215,32 @@ export interface GridOptions {
   count: number
   /** Container dimensions */
   dimensions: GridDimensions
-  /** Gap between items in pixels */
+  /** Gap between items in pixels (also the outer padding unless padding is set) */
   gap: number
+  /**
+   * Outer padding around the tiles, for every edge or per edge (missing edges use gap)
+   * @default gap
+   * @example
+   * padding: 0 // edge-to-edge
+   * padding: { bottom: 72 } // clear a toolbar
+   */
+  padding?: number | Partial<GridPadding>
+  /**
+   * Vertical gap between rows of tiles in pixels
+   * @default gap
+   */
+  rowGap?: number
+  /**
+   * Horizontal gap between columns of tiles in pixels
+   * @default gap
+   */
+  columnGap?: number
+  /**
+   * Layout of an incomplete last row (uniform gallery, pin thumbnails and the single
+   * tiles below a weighted mosaic)
+   * @default 'center'
+   */
+  lastRowAlign?: LastRowAlign
 }
 
 /**
@@ -46,6 +250,11 @@ export interface GridOptions {
  */
 export type ItemAspectRatio = string | 'auto'
 
+/**
+ * How the self-view tile is shown (see MeetGridOptions.selfViewMode)
+ */
+export type SelfViewMode = 'tile' | 'float' | 'hidden' | 'corner-slot'
+
 /**
  * Extended options for meet-style grid with layout modes
  */
@@ -54,6 +263,13 @@ export interface MeetGridOptions extends GridOptions {
   layoutMode?: LayoutMode
   /** Index of pinned/focused item (main participant for spotlight/pin modes) */
   pinnedIndex?: number
+  /**
+   * Indices of multiple pinned items sharing the main area (gallery mode).
+   * The main area is laid out as its own gallery of pinned items; takes precedence over pinnedIndex.
+   * @example
+   * pinnedIndices: [0, 3] // interviewer and candidate
+   */
+  pinnedIndices?: number[]
   /**
    * Position of "others" thumbnails when a participant is pinned.
    * In portrait containers, this is forced to 'bottom'.
@@ -64,6 +280,22 @@ export interface MeetGridOptions extends GridOptions {
   maxItemsPerPage?: number
   /** Current page index (0-based) for pagination */
   currentPage?: number
+  /**
+   * Derive the page size from the container instead of maxItemsPerPage: as many items
+   * per page as fit with tiles at minTileSize or larger (at least one).
+   * Recomputed whenever dimensions change; currentPage is clamped to the resulting pages.
+   * Gallery mode only.
+   */
+  autoPageSize?: boolean
+  /**
+   * Items that occupy a slot on every page (e.g. self-view, host) when paginating
+   * with maxItemsPerPage. They take the leading slots; the remaining slots are
+   * paginated over everyone else. At least one slot is kept for the others, so only
+   * the first maxItemsPerPage - 1 sticky items stick; any beyond that are paginated
+   * with everyone else.
+   * Gallery mode only (uniform, mixed-ratio, weighted and bubble galleries).
+   */
+  stickyIndices?: number[]
   /**
    * Maximum visible items (0 = show all).
    * - In gallery mode without pin: limits total items displayed
@@ -84,6 +316,15 @@ export interface MeetGridOptions extends GridOptions {
    * itemAspectRatios: ["16:9", "9:16", undefined]
    */
   itemAspectRatios?: (ItemAspectRatio | undefined)[]
+  /**
+   * Per-item tile weights for a mosaic gallery (index-based, default 1).
+   * A weight-N item spans an N×N block of cells; other tiles flow around it. Items still
+   * spanning more than one cell (weights are clamped to the column count) are main items.
+   * Only used in gallery mode without pin.
+   * @example
+   * weights: [1, 2, 1, 1] // item 1 is the active speaker
+   */
+  weights?: number[]
   /**
    * Custom width for the floating PiP item in 2-person mode.
    * When set, overrides the width resolved from floatBreakpoints.
@@ -112,6 +353,244 @@ export interface MeetGridOptions extends GridOptions {
    * ]
    */
   floatBreakpoints?: PipBreakpoint[]
+  /**
+   * Layout for exactly two items in gallery mode without pin.
+   * - 'float': one item fills the container, the other floats as a PiP (Zoom-style)
+   * - 'gallery': a regular side-by-side gallery
+   * @default 'float'
+   */
+  twoPersonLayout?: 'float' | 'gallery'
+  /**
+   * Which item floats in the 2-person float layout (0 or 1).
+   * @default 1
+   */
+  twoPersonFloatIndex?: number
+  /**
+   * Swap the main and floating items in the 2-person float layout,
+   * without re-ordering items.
+   * @default false
+   */
+  twoPersonSwap?: boolean
+  /**
+   * Whether the main item in the 2-person float layout fills the container
+   * edge-to-edge, even with padding or tileChrome (the chrome stays inside the tile).
+   * When false, it is inset by the outer padding (padding, or gap when unset).
+   * @default true
+   */
+  twoPersonEdgeToEdge?: boolean
+  /**
+   * Items that float as draggable PiPs over the layout, in any layout mode
+   * (e.g. self-view, interpreter, screen-share preview).
+   * Everyone else is laid out as if they didn't exist.
+   * When set, it replaces the automatic 2-person float.
+   */
+  floatIndices?: number[]
+  /**
+   * Per-item floating PiP sizes (index-based).
+   * Falls back to floatWidth/floatHeight/floatBreakpoints.
+   */
+  floatSizes?: (GridDimensions | undefined)[]
+  /**
+   * Per-item corners floating PiPs rest at (index-based).
+   * Floats sharing a corner stack along the edge.
+   * @default 'bottom-right'
+   */
+  floatAnchors?: (FloatAnchor | undefined)[]
+  /**
+   * Direction floats sharing a corner stack in.
+   * @default 'vertical'
+   */
+  floatStackDirection?: 'vertical' | 'horizontal'
+  /** Index of the local participant's own tile (self-view) */
+  selfIndex?: number
+  /**
+   * How the self-view (selfIndex) is shown, in any layout mode:
+   * - 'tile': a regular tile
+   * - 'float': a draggable floating PiP, stacked before any floatIndices
+   * - 'hidden': not shown
+   * - 'corner-slot': a fixed tile in the bottom-right corner, above the layout
+   * Except for 'tile', everyone else is laid out as if the self tile didn't exist.
+   * When set, it replaces the automatic 2-person float.
+   */
+  selfViewMode?: SelfViewMode
+  /**
+   * Indices of items that are content shares (screen share, whiteboard, etc.).
+   * Used by 'presentation' mode. Content is fitted at its own aspect ratio,
+   * taken from itemAspectRatios (falling back to aspectRatio).
+   * @example
+   * contentIndices: [3]
+   */
+  contentIndices?: number[]
+  /**
+   * Index of the presenter's camera in 'presentation' mode.
+   * Shown first in the space left over by the content, at least twice as wide as a speaker tile.
+   */
+  presenterIndex?: number
+  /**
+   * Direction of the strip in 'filmstrip' mode.
+   * Tiles fill the cross axis and overflow along the main axis instead of shrinking.
+   * @default 'horizontal'
+   */
+  filmstripOrientation?: 'horizontal' | 'vertical'
+  /**
+   * Indices of on-stage items in 'stage' mode (webinar panelists).
+   * Stage members are laid out with gallery rules in the order given (two panelists
+   * side by side, never as a PiP). Everyone else is audience and reported through
+   * audienceCount instead of being laid out.
+   */
+  stageIndices?: number[]
+  /**
+   * Reserve a compact slot for an audience-reactions tile in 'stage' mode.
+   * Its bounds are returned as reactionsSlot.
+   * @default false
+   */
+  showReactionsSlot?: boolean
+  /**
+   * Groups for 'grouped' mode. Each group gets its own region of the container,
+   * sized by its item count. Items that belong to no group are hidden.
+   */
+  groups?: GridGroup[]
+  /**
+   * Height of the header band at the top of each group region in 'grouped' mode (0 = no header).
+   * @default 0
+   */
+  groupHeaderHeight?: number
+  /**
+   * Layout template for 'template' mode: a grid-template-areas style string
+   * (rows separated by '/', cells by whitespace) or a LayoutTemplate object.
+   * @example
+   * template: 'a a b / a a c / d d d'
+   */
+  template?: string | LayoutTemplate
+  /**
+   * Item indices assigned to each template area in 'template' mode.
+   * @example
+   * templateAreas: { a: [0], b: [1], c: [2], d: [3, 4, 5, 6] }
+   */
+  templateAreas?: Record<string, number[]>
+  /**
+   * Per-item roles (index-based) matched against template area names in 'template' mode.
+   * Used for items not already assigned through templateAreas.
+   * @example
+   * itemRoles: ['host', 'guest1', 'guest2', 'strip', 'strip']
+   */
+  itemRoles?: (string | undefined)[]
+  /**
+   * Layout state for 'freeform' mode. Items without a stored rect get their gallery position.
+   * Update it with updateFreeformItem (e.g. after a drag or resize).
+   */
+  freeformLayout?: FreeformLayoutState
+  /**
+   * Let the gallery grow vertically instead of paginating (gallery mode without pin).
+   * Tiles never shrink below minTileSize; the result reports scrollExtent and getVisibleRange.
+   * maxItemsPerPage, maxVisible and hasVideo are ignored.
+   */
+  scrollable?: boolean
+  /**
+   * Minimum tile size for the scrollable gallery and autoPageSize.
+   * When set explicitly, the uniform, justified (mixed-ratio) and weighted galleries and the
+   * pin layout's thumbnails show fewer items rather than shrink below it: the rest
+   * overflow into hiddenCount, or onto further pages when paginating.
+   * @default { width: 160, height: 90 }
+   */
+  minTileSize?: GridDimensions
+  /**
+   * Maximum tile size for the uniform gallery, the justified (mixed-ratio) gallery, the
+   * single cells of the weighted gallery and the pin layout's thumbnails. Larger tiles are
+   * scaled down (keeping their aspect ratio) and centred in the space they would have used.
+   */
+  maxTileSize?: GridDimensions
+  /**
+   * Space inside every tile reserved for chrome such as a name/mic bar (pixels per edge).
+   * aspectRatio (and itemAspectRatios) then apply to the video area only: cells grow by the
+   * chrome, and getItemContentDimensions returns the video rect within the cell.
+   * Floating items keep their size; their video area is the float minus the chrome.
+   * @example
+   * tileChrome: { bottom: 28 } // name bar under each video
+   */
+  tileChrome?: Partial<GridPadding>
+  /**
+   * Per-item video state (index-based, gallery mode without pin). Items with `false` are
+   * packed as circular audio-only bubbles in a compact region; video items keep the gallery space.
+   * maxItemsPerPage, stickyIndices and maxVisible pick the items first; a scrollable gallery
+   * ignores hasVideo and gives every item a tile.
+   * @example
+   * hasVideo: [true, false, false, true]
+   */
+  hasVideo?: boolean[]
+  /**
+   * Preferred bubble diameter (px) for audio-only items when video items share the container.
+   * Bubbles fill the whole container when nobody has video.
+   * @default 96
+   */
+  bubbleSize?: number
+  /**
+   * Show the other items as a filmstrip overlaid on the bottom edge ('spotlight' mode).
+   * The strip slides out once overlayIdleTime reaches overlayHideDelay.
+   */
+  spotlightOverlay?: boolean
+  /** Time (ms) since the last pointer activity over the container, for the overlay strip */
+  overlayIdleTime?: number
+  /**
+   * Inactivity (ms) after which the overlay strip slides out
+   * @default 3000
+   */
+  overlayHideDelay?: number
+  /** Index of the front card in 'stack' mode (clamped to the item range) */
+  stackIndex?: number
+  /**
+   * Number of cards peeking behind the front card in 'stack' mode
+   * @default 2
+   */
+  stackPeekCount?: number
+  /**
+   * Scene for 'scene' mode. Without a scene, or with more items than seats, items are laid
+   * out as a gallery (the result still reports layoutMode 'scene', without scene bounds).
+   */
+  scene?: LayoutScene
+  /**
+   * How the scene is scaled to the container in 'scene' mode:
+   * 'contain' shows the whole scene, 'cover' fills the container and crops the overflow.
+   * @default 'contain'
+   */
+  sceneFit?: 'contain' | 'cover'
+  /**
+   * Display order: `itemOrder[slot]` is the item shown in that slot (any layout mode).
+   * Items missing from the order follow in index order. Use createSlotAssigner to keep
+   * tiles in place as participants join and leave.
+   */
+  itemOrder?: number[]
+}
+
+/**
+ * Overlay filmstrip state returned by 'spotlight' mode with spotlightOverlay
+ */
+export interface OverlayStrip {
+  /** Strip bounds when shown (the strip is translated down by its height when hidden) */
+  bounds: GridRect
+  /** Whether the strip is shown (pointer active within overlayHideDelay) */
+  visible: boolean
+  /** Inactivity (ms) after which the strip slides out */
+  hideDelay: number
+}
+
+/**
+ * Circle geometry of an audio-only bubble item
+ */
+export interface Bubble {
+  /** Horizontal centre relative to the container */
+  centerX: number
+  /** Vertical centre relative to the container */
+  centerY: number
+  radius: number
+}
+
+/**
+ * Range of item indices (endIndex is exclusive)
+ */
+export interface ItemRange {
+  startIndex: number
+  endIndex: number
 }
 
 /**
@@ -130,6 +609,14 @@ export interface PaginationInfo {
   startIndex: number
   /** End index of items on current page (exclusive) */
   endIndex: number
+  /** Items per page derived from minTileSize (only set with autoPageSize) */
+  pageSize?: number
+  /**
+   * Item indices on the current page, in slot order.
+   * Only set when stickyIndices is used; startIndex/endIndex then index into the
+   * non-sticky items.
+   */
+  pageIndices?: number[]
 }
 
 /**
@@ -146,6 +633,8 @@ export interface GridResult {
   cols: number
   /** Function to get position of item at index */
   getPosition: (index: number) => Position
+  /** Function to get dimensions of item at index (the last row differs when stretched) */
+  getItemDimensions: (index: number) => GridDimensions
 }
 
 /**
@@ -223,6 +712,85 @@ export function resolveFloatSize(
   return smallest ? { width: smallest.width, height: smallest.height } : { width: 120, height: 160 }
 }
 
+/**
+ * Container corner a floating PiP snaps to
+ */
+export type FloatAnchor = 'top-left' | 'top-right' | 'bottom-left' | 'bottom-right'
+
+/**
+ * A floating PiP item with its size and anchor
+ */
+export interface FloatItem extends GridDimensions {
+  /** Item index */
+  index: number
+  /** Corner the item snaps to */
+  anchor: FloatAnchor
+}
+
+/**
+ * Options for stacking floating PiPs
+ */
+export interface FloatStackOptions {
+  /** Distance from the container edges (px) @default 12 */
+  padding?: number
+  /** Space between floats stacked at the same corner (px) @default 8 */
+  gap?: number
+  /** Direction floats sharing a corner stack in, away from the corner @default 'vertical' */
+  direction?: 'vertical' | 'horizontal'
+}
+
+/**
+ * Resolve the resting positions of floating PiPs.
+ * Floats sharing an anchor stack along the edge in the order given, so they never overlap.
+ *
+ * @example
+ * const positions = getFloatPositions({ width: 1280, height: 720 }, [
+ *   { index: 0, width: 180, height: 240, anchor: 'bottom-right' },
+ *   { index: 3, width: 180, height: 240, anchor: 'bottom-right' }, // above item 0
+ * ])
+ */
+export function getFloatPositions(
+  container: GridDimensions,
+  floats: FloatItem[],
+  options: FloatStackOptions = {}
+): Map<number, Position> {
+  const { padding = 12, gap = 8, direction = 'vertical' } = options
+  const positions = new Map<number, Position>()
+  const offsets = new Map<FloatAnchor, number>()
+
+  for (const float of floats) {
+    const isTop = float.anchor === 'top-left' || float.anchor === 'top-right'
+    const isLeft = float.anchor === 'top-left' || float.anchor === 'bottom-left'
+    const offset = offsets.get(float.anchor) ?? 0
+
+    let top = isTop ? padding : container.height - float.height - padding
+    let left = isLeft ? padding : container.width - float.width - padding
+    if (direction === 'vertical') {
+      top += isTop ? offset : -offset
+    } else {
+      left += isLeft ? offset : -offset
+    }
+
+    positions.set(float.index, { top, left })
+    offsets.set(
+      float.anchor,
+      offset + (direction === 'vertical' ? float.height : float.width) + gap
+    )
+  }
+
+  return positions
+}
+
+/**
+ * Find the container corner nearest to a (dragged) float rect
+ */
+export function getNearestFloatAnchor(container: GridDimensions, rect: GridRect): FloatAnchor {
+  const isLeft = rect.left + rect.width / 2 < container.width / 2
+  const isTop = rect.top + rect.height / 2 < container.height / 2
+  if (isTop) return isLeft ? 'top-left' : 'top-right'
+  return isLeft ? 'bottom-left' : 'bottom-right'
+}
+
 /**
  * Extended result for meet-style grid
  */
@@ -253,6 +821,7 @@ export interface MeetGridResult extends GridResult {
    * Get the actual content dimensions within a cell.
    * Use this when items have different aspect ratios (e.g., phone vs desktop).
    * Returns dimensions fitted within the cell while maintaining the item's aspect ratio.
+   * With tileChrome, the content is fitted in the video area (the cell minus the chrome).
    *
    * @param index - The item index
    * @param itemRatio - The item's aspect ratio ("16:9", "9:16", or undefined for cell dimensions)
@@ -275,7 +844,8 @@ export interface MeetGridResult extends GridResult {
    * Index of the item that should be rendered as a floating PiP overlay.
    * When set, the component layer (GridItem) should render this item as a
    * draggable FloatingGridItem instead of a regular positioned item.
-   * Used automatically in 2-person mode (Zoom-style layout).
+   * Used automatically in 2-person mode (Zoom-style layout) and for
+   * selfViewMode 'float'.
    */
   floatIndex?: number
   /**
@@ -283,6 +853,61 @@ export interface MeetGridResult extends GridResult {
    * Only set when floatIndex is defined.
    */
   floatDimensions?: GridDimensions
+  /**
+   * All floating PiP items in stacking order, with their sizes and default anchors.
+   * Set whenever floatIndex is defined; floatIndex is the first of them.
+   * Resolve their positions with getFloatPositions.
+   */
+  floatItems?: FloatItem[]
+  /**
+   * Total size of the laid-out content, for layouts that overflow the container
+   * (e.g. 'filmstrip'). When larger than the container, the container should scroll.
+   */
+  scrollExtent?: GridDimensions
+  /**
+   * Scroll offset (scrollTop / scrollLeft) that brings the item to the start of the viewport.
+   * Only set by layouts that report a scrollExtent.
+   */
+  getScrollOffset?: (index: number) => Position
+  /**
+   * Range of item indices intersecting a vertical scroll viewport
+   * ({ top: scrollTop, height: viewport height }). Set by the scrollable gallery;
+   * use it to render only the tiles in or near view.
+   */
+  getVisibleRange?: (viewport: { top: number; height: number }) => ItemRange
+  /**
+   * Circle geometry of an audio-only item (items with hasVideo false).
+   * getPosition/getItemDimensions return the bubble's bounding square.
+   */
+  getBubble?: (index: number) => Bubble | undefined
+  /**
+   * Overlay filmstrip over the spotlight ('spotlight' mode with spotlightOverlay).
+   * Strip items are positioned below the container while the strip is hidden.
+   */
+  overlayStrip?: OverlayStrip
+  /**
+   * Number of audience members not laid out ('stage' mode).
+   * Unlike hiddenCount, this has no '+X' indicator semantics.
+   */
+  audienceCount?: number
+  /** Bounds of the audience-reactions tile ('stage' mode with showReactionsSlot) */
+  reactionsSlot?: GridRect
+  /**
+   * Per-group bounds for rendering group headers ('grouped' mode).
+   * In this mode rows/cols count the group regions, not the tiles.
+   */
+  groups?: GroupBounds[]
+  /** Stacking order of an item, for layouts where items can overlap ('freeform', 'stack') */
+  getItemZIndex?: (index: number) => number
+  /** Index of the front card after clamping ('stack' mode) */
+  stackIndex?: number
+  /** Scaled scene bounds (may extend past the container with 'cover') and background ('scene' mode) */
+  scene?: { bounds: GridRect; background?: string }
+  /**
+   * Resolved display order (`itemOrder[slot]` is an item index), set when options.itemOrder
+   * reorders items. Pagination indices and getVisibleRange refer to slots.
+   */
+  itemOrder?: number[]
 }
 
 // ============================================
@@ -317,6 +942,87 @@ export function parseAspectRatio(ratio: string): { widthRatio: number; heightRat
   return { widthRatio: width, heightRatio: height }
 }
 
+/**
+ * Parse a layout template into its grid size and named areas.
+ * Accepts a grid-template-areas style string ("a a b / a a c / d d d") or a LayoutTemplate.
+ * Throws if rows have different lengths or an area is not rectangular.
+ */
+export function parseLayoutTemplate(template: string | LayoutTemplate): {
+  rows: number
+  cols: number
+  rowSizes: number[]
+  colSizes: number[]
+  areas: TemplateArea[]
+} {
+  const grid =
+    typeof template === 'string'
+      ? template
+          .split('/')
+          .map((row) => row.trim().split(/\s+/))
+          .filter((row) => row.length > 0 && row[0] !== '')
+      : template.areas
+
+  const rows = grid.length
+  const cols = grid[0]?.length ?? 0
+  if (rows === 0 || cols === 0 || grid.some((row) => row.length !== cols)) {
+    throw new Error(
+      'meet-layout-grid: Invalid layout template provided, every row must have the same number of cells.'
+    )
+  }
+
+  const areas = new Map<string, TemplateArea>()
+  for (let r = 0; r < rows; r++) {
+    for (let c = 0; c < cols; c++) {
+      const name = grid[r][c]
+      if (name === '.' || areas.has(name)) continue
+
+      let colSpan = 1
+      while (c + colSpan < cols && grid[r][c + colSpan] === name) colSpan++
+      let rowSpan = 1
+      while (r + rowSpan < rows && grid[r + rowSpan][c] === name) rowSpan++
+
+      areas.set(name, { name, row: r, col: c, rowSpan, colSpan })
+    }
+  }
+
+  // Every cell of an area must lie inside its bounding box, and the box must be filled
+  for (let r = 0; r < rows; r++) {
+    for (let c = 0; c < cols; c++) {
+      const area = areas.get(grid[r][c])
+      if (!area) continue
+      const inside =
+        r >= area.row && r < area.row + area.rowSpan && c >= area.col && c < area.col + area.colSpan
+      if (!inside) {
+        throw new Error(
+          `meet-layout-grid: Invalid layout template provided, area "${area.name}" is not rectangular.`
+        )
+      }
+    }
+  }
+  for (const area of areas.values()) {
+    for (let r = area.row; r < area.row + area.rowSpan; r++) {
+      for (let c = area.col; c < area.col + area.colSpan; c++) {
+        if (grid[r][c] !== area.name) {
+          throw new Error(
+            `meet-layout-grid: Invalid layout template provided, area "${area.name}" is not rectangular.`
+          )
+        }
+      }
+    }
+  }
+
+  const rowSizes =
+    typeof template !== 'string' && template.rows?.length === rows
+      ? template.rows
+      : Array<number>(rows).fill(1)
+  const colSizes =
+    typeof template !== 'string' && template.columns?.length === cols
+      ? template.columns
+      : Array<number>(cols).fill(1)
+
+  return { rows, cols, rowSizes, colSizes, areas: [...areas.values()] }
+}
+
 /**
  * Calculate content dimensions that fit within a cell while maintaining aspect ratio
  * @param cellDimensions - The cell dimensions to fit content into
@@ -369,46 +1075,99 @@ export function calculateContentDimensions(
 }
 
 /**
- * Create a getItemContentDimensions function for a grid result
+ * Create a getItemContentDimensions function for a grid result.
+ * With tileChrome, content is fitted in the video area (the cell minus the chrome).
  */
 function createGetItemContentDimensions(
   getItemDimensions: (index: number) => GridDimensions,
   itemAspectRatios?: (ItemAspectRatio | undefined)[],
-  defaultRatio?: string
+  defaultRatio?: string,
+  tileChrome?: Partial<GridPadding>
 ): (index: number, itemRatio?: ItemAspectRatio) => ContentDimensions {
+  const chrome = resolveTileChrome(tileChrome)
   return (index: number, itemRatio?: ItemAspectRatio): ContentDimensions => {
-    const cellDimensions = getItemDimensions(index)
+    const { width, height } = getItemDimensions(index)
+    const videoDimensions = {
+      width: Math.max(0, width - chrome.left - chrome.right),
+      height: Math.max(0, height - chrome.top - chrome.bottom),
+    }
     // Priority: 1. explicit itemRatio param, 2. itemAspectRatios[index], 3. defaultRatio
     const effectiveRatio = itemRatio ?? itemAspectRatios?.[index] ?? defaultRatio
-    return calculateContentDimensions(cellDimensions, effectiveRatio, defaultRatio)
+    const content = calculateContentDimensions(videoDimensions, effectiveRatio, defaultRatio)
+    return {
+      ...content,
+      offsetTop: content.offsetTop + chrome.top,
+      offsetLeft: content.offsetLeft + chrome.left,
+    }
   }
 }
 
-// ============================================
-// Core Grid Calculation
-// ============================================
-
 /**
- * Calculates grid item dimensions for items that can fit in a container.
- * Adapted from: https://stackoverflow.com/a/28268965
+ * Resolve tileChrome to all four edges (0 where unset)
  */
-export function getGridItemDimensions({ count, dimensions, aspectRatio, gap }: GridOptions): {
-  width: number
-  height: number
-  rows: number
-  cols: number
-} {
-  let { width: W, height: H } = dimensions
+function resolveTileChrome(tileChrome: Partial<GridPadding> = {}): GridPadding {
+  const { top = 0, right = 0, bottom = 0, left = 0 } = tileChrome
+  return { top, right, bottom, left }
+}
+
+/**
+ * Gaps between tiles (rows and columns)
+ */
+interface TileSpacing {
+  rowGap: number
+  columnGap: number
+}
+
+/**
+ * Resolve the outer padding and the row/column gaps; anything unset falls back to gap.
+ */
+function resolveSpacing(
+  options: Pick<GridOptions, 'gap' | 'padding' | 'rowGap' | 'columnGap'>
+): TileSpacing & { padding: GridPadding } {
+  const { gap, padding = gap, rowGap = gap, columnGap = gap } = options
+  const edges = typeof padding === 'number' ? {} : padding
+  const fallback = typeof padding === 'number' ? padding : gap
+
+  return {
+    padding: {
+      top: edges.top ?? fallback,
+      right: edges.right ?? fallback,
+      bottom: edges.bottom ?? fallback,
+      left: edges.left ?? fallback,
+    },
+    rowGap,
+    columnGap,
+  }
+}
+
+// ============================================
+// Core Grid Calculation
+// ============================================
+
+/**
+ * Calculates grid item dimensions for items that can fit in a container.
+ * Adapted from: https://stackoverflow.com/a/28268965
+ */
+export function getGridItemDimensions(options: GridOptions): {
+  width: number
+  height: number
+  rows: number
+  cols: number
+} {
+  const { count, dimensions, aspectRatio } = options
+  let { width: W, height: H } = dimensions
 
   if (W === 0 || H === 0 || count === 0) {
     return { width: 0, height: 0, rows: 1, cols: 1 }
   }
 
-  // Account for outer gap
-  W -= gap * 2
-  H -= gap * 2
+  // Account for outer padding
+  const { padding, rowGap, columnGap } = resolveSpacing(options)
+  W -= padding.left + padding.right
+  H -= padding.top + padding.bottom
 
-  const s = gap
+  const sx = columnGap
+  const sy = rowGap
   const N = count
   const r = getAspectRatio(aspectRatio)
 
@@ -422,7 +1181,7 @@ export function getGridItemDimensions({ count, dimensions, aspectRatio, gap }: G
   const widths: number[] = []
 
   for (let n = 1; n <= N; n++) {
-    widths.push((W - s * (n - 1)) / n, (H - s * (n - 1)) / (n * r))
+    widths.push((W - sx * (n - 1)) / n, (H - sy * (n - 1)) / (n * r))
   }
 
   // Sort in descending order, largest first
@@ -432,8 +1191,8 @@ export function getGridItemDimensions({ count, dimensions, aspectRatio, gap }: G
     w = width
     h = w * r
 
-    a = Math.floor((W + s) / (w + s))
-    b = Math.floor((H + s) / (h + s))
+    a = Math.floor((W + sx) / (w + sx))
+    b = Math.floor((H + sy) / (h + sy))
 
     // Ensure minimum columns constraint
     if (a < minCols && N >= minCols) {
@@ -448,15 +1207,23 @@ export function getGridItemDimensions({ count, dimensions, aspectRatio, gap }: G
     }
   }
 
+  // No candidate fitted: the smallest one is an exact fit whose row count rounded down
+  // (e.g. with zero gaps), so recount its rows with a small tolerance
+  if (a * b < N) {
+    b = Math.max(1, Math.floor((H + sy) / (h + sy) + 1e-9))
+    a = Math.max(minCols, Math.ceil(N / b))
+    b = Math.ceil(N / a)
+  }
+
   // Final check: ensure minimum columns
   if (a < minCols && N >= minCols) {
     a = minCols
     b = Math.ceil(N / a)
     // Recalculate dimensions for new grid
-    w = (W - s * (a - 1)) / a
+    w = (W - sx * (a - 1)) / a
     h = w * r
     // Check if height fits
-    const requiredHeight = b * h + (b - 1) * s
+    const requiredHeight = b * h + (b - 1) * sy
     if (requiredHeight > H) {
       const scale = H / requiredHeight
       h = h * scale
@@ -468,82 +1235,176 @@ export function getGridItemDimensions({ count, dimensions, aspectRatio, gap }: G
 }
 
 /**
- * Creates a utility function which helps you position grid items in a container.
+ * Row, column and row length of a tile in a row-major grid of `cols` columns.
+ * With lastRowAlign 'spread' the rows are balanced, longer rows first.
  */
-export function createGridItemPositioner({
-  parentDimensions,
-  dimensions,
-  rows,
-  cols,
-  count,
-  gap,
-}: {
+function getGridCell(
+  index: number,
+  count: number,
+  cols: number,
+  lastRowAlign: LastRowAlign = 'center'
+): { row: number; col: number; rowLength: number } {
+  if (lastRowAlign === 'spread' && count > 0) {
+    const rows = Math.ceil(count / cols)
+    const shortLength = Math.floor(count / rows)
+    const longRows = count % rows
+    const longItems = longRows * (shortLength + 1)
+    if (index < longItems) {
+      const row = Math.floor(index / (shortLength + 1))
+      return { row, col: index - row * (shortLength + 1), rowLength: shortLength + 1 }
+    }
+    const rest = index - longItems
+    return {
+      row: longRows + Math.floor(rest / shortLength),
+      col: rest % shortLength,
+      rowLength: shortLength,
+    }
+  }
+
+  const incompleteRowCols = count % cols
+  const isInLastRow = incompleteRowCols > 0 && index >= count - incompleteRowCols
+  return {
+    row: Math.floor(index / cols),
+    col: index % cols,
+    rowLength: isInLastRow ? incompleteRowCols : cols,
+  }
+}
+
+/**
+ * Left edge and width of a tile in a row holding fewer than `cols` tiles,
+ * aligned against the full rows (which start at gridLeft).
+ */
+function alignRowTile(
+  col: number,
+  rowLength: number,
+  cols: number,
+  tileWidth: number,
+  columnGap: number,
+  gridLeft: number,
+  lastRowAlign: LastRowAlign = 'center'
+): { left: number; width: number } {
+  const gridWidth = cols * tileWidth + (cols - 1) * columnGap
+
+  switch (lastRowAlign) {
+    case 'start':
+      return { left: gridLeft + col * (tileWidth + columnGap), width: tileWidth }
+    case 'end':
+      return {
+        left: gridLeft + (cols - rowLength + col) * (tileWidth + columnGap),
+        width: tileWidth,
+      }
+    case 'stretch': {
+      const width = (gridWidth - (rowLength - 1) * columnGap) / rowLength
+      return { left: gridLeft + col * (width + columnGap), width }
+    }
+    default: {
+      // 'center' and the short rows of 'spread'
+      const rowWidth = rowLength * tileWidth + (rowLength - 1) * columnGap
+      return {
+        left: gridLeft + (gridWidth - rowWidth) / 2 + col * (tileWidth + columnGap),
+        width: tileWidth,
+      }
+    }
+  }
+}
+
+/**
+ * Parameters shared by createGridItemPositioner and createGridItemLayout
+ */
+interface GridItemLayoutParams {
   parentDimensions: GridDimensions
   dimensions: GridDimensions
   rows: number
   cols: number
   count: number
   gap: number
-}): (index: number) => Position {
+  padding?: number | Partial<GridPadding>
+  rowGap?: number
+  columnGap?: number
+  lastRowAlign?: LastRowAlign
+}
+
+/**
+ * Positions and dimensions of the tiles of a uniform grid in a container.
+ */
+function createGridItemLayout({
+  parentDimensions,
+  dimensions,
+  rows,
+  cols,
+  count,
+  lastRowAlign,
+  ...spacing
+}: GridItemLayoutParams): {
+  getPosition: (index: number) => Position
+  getItemDimensions: (index: number) => GridDimensions
+} {
   const { width: W, height: H } = parentDimensions
   const { width: w, height: h } = dimensions
+  const { padding, rowGap, columnGap } = resolveSpacing(spacing)
 
-  const firstTop = (H - (h * rows + (rows - 1) * gap)) / 2
-  let firstLeft = (W - (w * cols + (cols - 1) * gap)) / 2
-
-  const topAdd = h + gap
-  const leftAdd = w + gap
+  // Center the tiles inside the padded area
+  const innerW = W - padding.left - padding.right
+  const innerH = H - padding.top - padding.bottom
+  const firstTop = padding.top + (innerH - (h * rows + (rows - 1) * rowGap)) / 2
+  const firstLeft = padding.left + (innerW - (w * cols + (cols - 1) * columnGap)) / 2
 
-  const incompleteRowCols = count % cols
-  const lastRowStartIndex = incompleteRowCols > 0 ? count - incompleteRowCols : count - cols
+  const topAdd = h + rowGap
+  const leftAdd = w + columnGap
 
-  function getPosition(index: number): Position {
+  function getTile(index: number): { top: number; left: number; width: number } {
     // Calculate row and col directly from index (pure function)
-    const row = Math.floor(index / cols)
-    const col = index % cols
-
-    // Check if this item is in the last incomplete row
-    const isInLastRow = incompleteRowCols > 0 && index >= lastRowStartIndex
-
-    let leftOffset = firstLeft
-    if (isInLastRow) {
-      // Center the incomplete last row
-      const lastRowItemCount = incompleteRowCols
-      const colInLastRow = index - lastRowStartIndex
-      leftOffset = (W - (w * lastRowItemCount + (lastRowItemCount - 1) * gap)) / 2
+    const { row, col, rowLength } = getGridCell(index, count, cols, lastRowAlign)
+    const top = firstTop + row * topAdd
 
-      const top = firstTop + row * topAdd
-      const left = leftOffset + colInLastRow * leftAdd
-      return { top, left }
+    if (rowLength < cols) {
+      // Align the incomplete (or, when spread, shorter) row
+      const tile = alignRowTile(col, rowLength, cols, w, columnGap, firstLeft, lastRowAlign)
+      return { top, ...tile }
     }
 
-    const top = firstTop + row * topAdd
-    const left = leftOffset + col * leftAdd
+    return { top, left: firstLeft + col * leftAdd, width: w }
+  }
 
-    return { top, left }
+  return {
+    getPosition: (index: number): Position => {
+      const { top, left } = getTile(index)
+      return { top, left }
+    },
+    getItemDimensions: (index: number): GridDimensions => ({
+      width: getTile(index).width,
+      height: h,
+    }),
   }
+}
 
-  return getPosition
+/**
+ * Creates a utility function which helps you position grid items in a container.
+ */
+export function createGridItemPositioner(
+  params: GridItemLayoutParams
+): (index: number) => Position {
+  return createGridItemLayout(params).getPosition
 }
 
 /**
  * Calculates data required for making a responsive grid.
  */
-export function createGrid({ aspectRatio, count, dimensions, gap }: GridOptions): GridResult {
-  const { width, height, rows, cols } = getGridItemDimensions({
-    aspectRatio,
-    count,
-    dimensions,
-    gap,
-  })
+export function createGrid(options: GridOptions): GridResult {
+  const { count, dimensions, gap, padding, rowGap, columnGap, lastRowAlign } = options
+  const { width, height, rows, cols } = getGridItemDimensions(options)
 
-  const getPosition = createGridItemPositioner({
+  const { getPosition, getItemDimensions } = createGridItemLayout({
     parentDimensions: dimensions,
     dimensions: { width, height },
     rows,
     cols,
     count,
     gap,
+    padding,
+    rowGap,
+    columnGap,
+    lastRowAlign,
   })
 
   return {
@@ -552,6 +1413,36 @@ export function createGrid({ aspectRatio, count, dimensions, gap }: GridOptions)
     rows,
     cols,
     getPosition,
+    getItemDimensions,
+  }
+}
+
+/**
+ * Creates a uniform grid inside a rectangle of the container.
+ * The rectangle edges replace the outer padding; positions are relative to the container.
+ */
+function createGridInRect(
+  rect: GridRect,
+  count: number,
+  aspectRatio: string,
+  spacing: TileSpacing
+): GridResult {
+  const grid = createGrid({
+    aspectRatio,
+    count,
+    dimensions: { width: rect.width, height: rect.height },
+    gap: 0,
+    padding: 0,
+    rowGap: spacing.rowGap,
+    columnGap: spacing.columnGap,
+  })
+
+  return {
+    ...grid,
+    getPosition: (index: number) => {
+      const { top, left } = grid.getPosition(index)
+      return { top: top + rect.top, left: left + rect.left }
+    },
   }
 }
 
@@ -559,9 +1450,26 @@ export function createGrid({ aspectRatio, count, dimensions, gap }: GridOptions)
 // Meet Grid (with Layout Modes)
 // ============================================
 
+/**
+ * Resolve the pinned items for gallery pin mode.
+ * pinnedIndices takes precedence over pinnedIndex; invalid and duplicate indices are dropped.
+ */
+function resolvePinnedIndices(options: MeetGridOptions): number[] {
+  const { count, pinnedIndex, pinnedIndices } = options
+  const candidates = pinnedIndices && pinnedIndices.length > 0 ? pinnedIndices : [pinnedIndex]
+  const pinned: number[] = []
+  for (const index of candidates) {
+    if (index !== undefined && index >= 0 && index < count && !pinned.includes(index)) {
+      pinned.push(index)
+    }
+  }
+  return pinned
+}
+
 /**
  * Create a flexible pin layout grid.
- * Pinned item fills the main area, others are arranged in a compact grid.
+ * A single pinned item fills the main area; multiple pinned items share it as a sub-gallery.
+ * Others are arranged in a compact grid.
  * On portrait containers, others go bottom. On landscape, others go to the specified position.
  */
 function createFlexiblePinGrid(options: MeetGridOptions): MeetGridResult {
@@ -571,15 +1479,22 @@ function createFlexiblePinGrid(options: MeetGridOptions): MeetGridResult {
     aspectRatio,
     count,
     othersPosition = 'right',
-    pinnedIndex = 0,
     maxVisible = 0,
     currentVisiblePage = 0,
+    maxTileSize,
+    lastRowAlign,
   } = options
+  const spacing = resolveSpacing(options)
+  const { rowGap, columnGap } = spacing
 
   if (count === 0) {
     return createEmptyMeetGridResult('gallery')
   }
 
+  const resolvedPinned = resolvePinnedIndices(options)
+  const pinned = resolvedPinned.length > 0 ? resolvedPinned : [0]
+  const pinnedSet = new Set(pinned)
+
   if (count === 1) {
     // Single item fills entire container
     const { width: W, height: H } = dimensions
@@ -615,7 +1530,7 @@ function createFlexiblePinGrid(options: MeetGridOptions): MeetGridResult {
   const ratio = getAspectRatio(aspectRatio)
 
   // Calculate others pagination
-  const totalOthers = count - 1
+  const totalOthers = count - pinned.length
   const visibleOthers = maxVisible > 0 ? Math.min(maxVisible, totalOthers) : totalOthers
 
   const othersTotalPages = maxVisible > 0 ? Math.ceil(totalOthers / maxVisible) : 1
@@ -637,7 +1552,13 @@ function createFlexiblePinGrid(options: MeetGridOptions): MeetGridResult {
   let othersAreaWidth: number
   let othersAreaHeight: number
 
-  if (isVertical) {
+  if (totalOthers === 0) {
+    // Everyone is pinned — main area takes the whole container
+    othersAreaWidth = 0
+    othersAreaHeight = 0
+    mainWidth = W - gap * 2
+    mainHeight = H - gap * 2
+  } else if (isVertical) {
     // Others on top/bottom — find best row configuration
     const areaW = W - gap * 2
     const isMobilePin = W < 500
@@ -647,18 +1568,18 @@ function createFlexiblePinGrid(options: MeetGridOptions): MeetGridResult {
       // Calculate thumbs at full width with correct ratio, then size area to fit
       const mobileCols = Math.min(visibleOthers, 2)
       const mobileRows = Math.ceil(visibleOthers / mobileCols)
-      let thumbW = (areaW - (mobileCols - 1) * gap) / mobileCols
+      let thumbW = (areaW - (mobileCols - 1) * columnGap) / mobileCols
       let thumbH = thumbW * ratio
 
       // Required area to fit these items
-      let neededH = mobileRows * thumbH + (mobileRows - 1) * gap + gap
+      let neededH = mobileRows * thumbH + (mobileRows - 1) * rowGap + rowGap
 
       // Cap: others can take at most 70% — pin still gets at least 30%
       const maxOthersH = H * 0.7
       if (neededH > maxOthersH) {
         neededH = maxOthersH
         // Recalculate thumb size to fit within capped area
-        const availThumbH = (neededH - (mobileRows - 1) * gap - gap * 2) / mobileRows
+        const availThumbH = (neededH - (mobileRows - 1) * rowGap - rowGap * 2) / mobileRows
         thumbH = availThumbH
         thumbW = thumbH / ratio
       }
@@ -676,9 +1597,9 @@ function createFlexiblePinGrid(options: MeetGridOptions): MeetGridResult {
 
       for (let rows = 1; rows <= maxRows; rows++) {
         const cols = Math.ceil((visibleOthers || 1) / rows)
-        const thumbW = (areaW - (cols - 1) * gap) / cols
+        const thumbW = (areaW - (cols - 1) * columnGap) / cols
         const thumbH = thumbW * othersRatio
-        const requiredH = rows * thumbH + (rows - 1) * gap + gap
+        const requiredH = rows * thumbH + (rows - 1) * rowGap + rowGap
 
         const areaRatio = requiredH / H
         if (areaRatio > maxOthersRatio) continue
@@ -704,7 +1625,7 @@ function createFlexiblePinGrid(options: MeetGridOptions): MeetGridResult {
       othersAreaWidth = areaW
     }
 
-    mainHeight = H - othersAreaHeight - gap * 3
+    mainHeight = H - othersAreaHeight - gap * 2 - rowGap
     mainWidth = areaW
   } else {
     // Others on left/right — find best column configuration
@@ -716,9 +1637,9 @@ function createFlexiblePinGrid(options: MeetGridOptions): MeetGridResult {
 
     for (let cols = 1; cols <= maxCols; cols++) {
       const rows = Math.ceil((visibleOthers || 1) / cols)
-      const thumbH = (areaH - (rows - 1) * gap) / rows
+      const thumbH = (areaH - (rows - 1) * rowGap) / rows
       const thumbW = thumbH / ratio
-      const requiredW = cols * thumbW + (cols - 1) * gap + gap * 2
+      const requiredW = cols * thumbW + (cols - 1) * columnGap + gap + columnGap
 
       const areaRatio = requiredW / W
       const thumbArea = thumbW * thumbH
@@ -736,7 +1657,7 @@ function createFlexiblePinGrid(options: MeetGridOptions): MeetGridResult {
 
     othersAreaWidth = bestOthersW
     othersAreaHeight = areaH
-    mainWidth = W - othersAreaWidth - gap * 2
+    mainWidth = W - othersAreaWidth - gap - columnGap
     mainHeight = areaH
   }
 
@@ -753,20 +1674,36 @@ function createFlexiblePinGrid(options: MeetGridOptions): MeetGridResult {
   if (isVertical) {
     mainLeft = gap + (mainWidth - mainItemWidth) / 2
     mainTop =
-      effectivePosition === 'top'
-        ? othersAreaHeight + gap * 2 + (mainHeight - mainItemHeight) / 2
+      effectivePosition === 'top' && totalOthers > 0
+        ? othersAreaHeight + gap + rowGap + (mainHeight - mainItemHeight) / 2
         : gap + (mainHeight - mainItemHeight) / 2
   } else {
     mainLeft =
-      effectivePosition === 'left'
-        ? othersAreaWidth + gap * 2 + (mainWidth - mainItemWidth) / 2
+      effectivePosition === 'left' && totalOthers > 0
+        ? othersAreaWidth + gap + columnGap + (mainWidth - mainItemWidth) / 2
         : gap + (mainWidth - mainItemWidth) / 2
     mainTop = gap + (mainHeight - mainItemHeight) / 2
   }
 
-  positions[pinnedIndex] = {
-    position: { top: mainTop, left: mainLeft },
-    dimensions: { width: mainItemWidth, height: mainItemHeight },
+  if (pinned.length === 1) {
+    positions[pinned[0]] = {
+      position: { top: mainTop, left: mainLeft },
+      dimensions: { width: mainItemWidth, height: mainItemHeight },
+    }
+  } else {
+    // Multiple pins: main area becomes its own gallery of pinned items
+    const mainGrid = createGridInRect(
+      { top: mainTop, left: mainLeft, width: mainItemWidth, height: mainItemHeight },
+      pinned.length,
+      aspectRatio,
+      spacing
+    )
+    pinned.forEach((index, i) => {
+      positions[index] = {
+        position: mainGrid.getPosition(i),
+        dimensions: { width: mainGrid.width, height: mainGrid.height },
+      }
+    })
   }
 
   // Layout others with uniform grid inside their area
@@ -785,8 +1722,8 @@ function createFlexiblePinGrid(options: MeetGridOptions): MeetGridResult {
           // Mobile: items fill width, respect aspect ratio
           thumbCols = Math.min(visibleOthers, 2)
           thumbRows = Math.ceil(visibleOthers / thumbCols)
-          const maxW = (othersAreaWidth - (thumbCols - 1) * gap) / thumbCols
-          const maxH = (othersAreaHeight - (thumbRows - 1) * gap - gap) / thumbRows
+          const maxW = (othersAreaWidth - (thumbCols - 1) * columnGap) / thumbCols
+          const maxH = (othersAreaHeight - (thumbRows - 1) * rowGap - rowGap) / thumbRows
           thumbWidth = maxW
           thumbHeight = thumbWidth * ratio
           if (thumbHeight > maxH) {
@@ -798,8 +1735,8 @@ function createFlexiblePinGrid(options: MeetGridOptions): MeetGridResult {
           let bestScore = -1
           for (let cols = 1; cols <= visibleOthers; cols++) {
             const rows = Math.ceil(visibleOthers / cols)
-            const maxTileW = (othersAreaWidth - (cols - 1) * gap) / cols
-            const maxTileH = (othersAreaHeight - (rows - 1) * gap) / rows
+            const maxTileW = (othersAreaWidth - (cols - 1) * columnGap) / cols
+            const maxTileH = (othersAreaHeight - (rows - 1) * rowGap) / rows
 
             let tileW = maxTileW
             let tileH = tileW * othersRatio
@@ -828,9 +1765,9 @@ function createFlexiblePinGrid(options: MeetGridOptions): MeetGridResult {
         for (let rows = 1; rows <= visibleOthers; rows++) {
           const cols = Math.ceil(visibleOthers / rows)
 
-          const maxTileH = (othersAreaHeight - (rows - 1) * gap) / rows
+          const maxTileH = (othersAreaHeight - (rows - 1) * rowGap) / rows
           const idealTileW = maxTileH * targetRatio
-          const maxTileW = (othersAreaWidth - (cols - 1) * gap) / cols
+          const maxTileW = (othersAreaWidth - (cols - 1) * columnGap) / cols
 
           let tileW: number, tileH: number
 
@@ -854,9 +1791,16 @@ function createFlexiblePinGrid(options: MeetGridOptions): MeetGridResult {
       }
     }
 
+    // Thumbnails never grow past maxTileSize
+    if (maxTileSize && thumbWidth > 0 && thumbHeight > 0) {
+      const scale = Math.min(1, maxTileSize.width / thumbWidth, maxTileSize.height / thumbHeight)
+      thumbWidth *= scale
+      thumbHeight *= scale
+    }
+
     // Calculate grid start position
-    const totalGridWidth = thumbCols * thumbWidth + (thumbCols - 1) * gap
-    const totalGridHeight = thumbRows * thumbHeight + (thumbRows - 1) * gap
+    const totalGridWidth = thumbCols * thumbWidth + (thumbCols - 1) * columnGap
+    const totalGridHeight = thumbRows * thumbHeight + (thumbRows - 1) * rowGap
 
     let gridStartLeft: number
     let gridStartTop: number
@@ -866,47 +1810,50 @@ function createFlexiblePinGrid(options: MeetGridOptions): MeetGridResult {
       gridStartTop =
         effectivePosition === 'top'
           ? gap + (othersAreaHeight - totalGridHeight) / 2
-          : mainHeight + gap * 2 + (othersAreaHeight - totalGridHeight) / 2
+          : mainHeight + gap + rowGap + (othersAreaHeight - totalGridHeight) / 2
     } else {
       gridStartLeft =
         effectivePosition === 'left'
           ? gap + (othersAreaWidth - totalGridWidth) / 2
-          : mainWidth + gap * 2 + (othersAreaWidth - totalGridWidth) / 2
+          : mainWidth + gap + columnGap + (othersAreaWidth - totalGridWidth) / 2
       gridStartTop = gap + (othersAreaHeight - totalGridHeight) / 2
     }
 
     let othersIndex = 0
     for (let i = 0; i < count; i++) {
-      if (i === pinnedIndex) continue
+      if (pinnedSet.has(i)) continue
 
       const isInVisibleRange = othersIndex >= startOthersIndex && othersIndex < endOthersIndex
 
       if (isInVisibleRange) {
         const pageRelativeIndex = othersIndex - startOthersIndex
-        const row = Math.floor(pageRelativeIndex / thumbCols)
-        const col = pageRelativeIndex % thumbCols
-
-        // Center last incomplete row
-        const itemsInLastRow = itemsOnPage % thumbCols || thumbCols
-        let rowLeft = gridStartLeft
-        const lastRowIndex = Math.ceil(itemsOnPage / thumbCols) - 1
-        if (row === lastRowIndex && itemsInLastRow < thumbCols) {
-          const rowWidth = itemsInLastRow * thumbWidth + (itemsInLastRow - 1) * gap
-          if (isVertical) {
-            rowLeft = gap + (othersAreaWidth - rowWidth) / 2
-          } else {
-            rowLeft =
-              (effectivePosition === 'left' ? gap : mainWidth + gap * 2) +
-              (othersAreaWidth - rowWidth) / 2
-          }
-        }
+        const { row, col, rowLength } = getGridCell(
+          pageRelativeIndex,
+          itemsOnPage,
+          thumbCols,
+          lastRowAlign
+        )
+
+        // Align the incomplete last row (or, when spread, the shorter rows)
+        const tile =
+          rowLength < thumbCols
+            ? alignRowTile(
+                col,
+                rowLength,
+                thumbCols,
+                thumbWidth,
+                columnGap,
+                gridStartLeft,
+                lastRowAlign
+              )
+            : { left: gridStartLeft + col * (thumbWidth + columnGap), width: thumbWidth }
 
         positions[i] = {
           position: {
-            top: gridStartTop + row * (thumbHeight + gap),
-            left: rowLeft + col * (thumbWidth + gap),
+            top: gridStartTop + row * (thumbHeight + rowGap),
+            left: tile.left,
           },
-          dimensions: { width: thumbWidth, height: thumbHeight },
+          dimensions: { width: tile.width, height: thumbHeight },
         }
       } else {
         positions[i] = {
@@ -937,7 +1884,7 @@ function createFlexiblePinGrid(options: MeetGridOptions): MeetGridResult {
     let othersIdx = 0
     let lastVisibleOriginalIdx = -1
     for (let i = 0; i < count; i++) {
-      if (i === pinnedIndex) continue
+      if (pinnedSet.has(i)) continue
       if (othersIdx >= startOthersIndex && othersIdx < endOthersIndex) {
         lastVisibleOriginalIdx = i
       }
@@ -946,21 +1893,23 @@ function createFlexiblePinGrid(options: MeetGridOptions): MeetGridResult {
     return lastVisibleOriginalIdx
   }
 
+  const mainDimensions = getItemDimensions(pinned[0])
+
   return {
-    width: mainItemWidth,
-    height: mainItemHeight,
+    width: mainDimensions.width,
+    height: mainDimensions.height,
     rows: isVertical ? 2 : 1,
     cols: isVertical ? 1 : 2,
     layoutMode: 'gallery',
     getPosition: (index: number) => positions[index]?.position ?? { top: 0, left: 0 },
     getItemDimensions,
-    isMainItem: (index: number) => index === pinnedIndex,
+    isMainItem: (index: number) => pinnedSet.has(index),
     pagination,
     isItemVisible: (index: number) => {
-      if (index === pinnedIndex) return true
+      if (pinnedSet.has(index)) return true
       let sIdx = 0
       for (let i = 0; i < index; i++) {
-        if (i !== pinnedIndex) sIdx++
+        if (!pinnedSet.has(i)) sIdx++
       }
       return sIdx >= startOthersIndex && sIdx < endOthersIndex
     },
@@ -1008,6 +1957,14 @@ function createSpotlightGrid(options: MeetGridOptions): MeetGridResult {
     left: gap + (W - gap * 2 - spotWidth) / 2,
   }
 
+  if (options.spotlightOverlay && options.count > 1) {
+    return createSpotlightOverlayGrid(options, {
+      ...position,
+      width: spotWidth,
+      height: spotHeight,
+    })
+  }
+
   const pagination = createDefaultPagination(1) // Spotlight shows only 1 item
   const getItemDimensions = (index: number) =>
     index === pinnedIndex ? { width: spotWidth, height: spotHeight } : { width: 0, height: 0 }
@@ -1035,139 +1992,1981 @@ function createSpotlightGrid(options: MeetGridOptions): MeetGridResult {
 }
 
 /**
- * Create default pagination info (no pagination)
+ * Create a spotlight with the other items in a filmstrip overlaid on its bottom edge.
+ * Tiles shrink (down to 60% of the strip height) to fit; beyond that, the last visible
+ * tile becomes a '+X' indicator. While hidden, strip items sit just below the container.
  */
-function createDefaultPagination(count: number): PaginationInfo {
-  return {
-    enabled: false,
-    currentPage: 0,
-    totalPages: 1,
-    itemsOnPage: count,
-    startIndex: 0,
-    endIndex: count,
+function createSpotlightOverlayGrid(options: MeetGridOptions, spot: GridRect): MeetGridResult {
+  const {
+    dimensions,
+    aspectRatio,
+    count,
+    pinnedIndex = 0,
+    overlayIdleTime = 0,
+    overlayHideDelay = 3000,
+  } = options
+  const { width: W, height: H } = dimensions
+  const { rowGap, columnGap } = resolveSpacing(options)
+  const ratio = getAspectRatio(aspectRatio)
+
+  const others: number[] = []
+  for (let i = 0; i < count; i++) {
+    if (i !== pinnedIndex) others.push(i)
   }
-}
 
-/**
- * Create pagination info based on options
- */
-function createPaginationInfo(
-  count: number,
-  maxItemsPerPage?: number,
-  currentPage?: number
-): PaginationInfo {
-  if (!maxItemsPerPage || maxItemsPerPage <= 0 || maxItemsPerPage >= count) {
-    return createDefaultPagination(count)
+  const stripH = Math.min(Math.max(H * 0.18, 72), 160)
+  const maxTileH = Math.max(0, stripH - rowGap * 2)
+  const minTileW = (maxTileH / ratio) * 0.6
+  const fitWidth = (n: number) => (W - columnGap * (n + 1)) / n
+
+  let visibleCount = others.length
+  let hiddenCount = 0
+  if (fitWidth(visibleCount) < minTileW) {
+    visibleCount = Math.max(1, Math.floor((W - columnGap) / (minTileW + columnGap)))
+    // +1 because the last slot shows the indicator instead of a participant
+    hiddenCount = others.length - visibleCount + 1
   }
 
-  const totalPages = Math.ceil(count / maxItemsPerPage)
-  const page = Math.min(Math.max(0, currentPage ?? 0), totalPages - 1)
-  const startIndex = page * maxItemsPerPage
-  const endIndex = Math.min(startIndex + maxItemsPerPage, count)
+  const tileW = Math.max(0, Math.min(maxTileH / ratio, fitWidth(visibleCount)))
+  const tileH = tileW * ratio
+  const visible = overlayIdleTime < overlayHideDelay
+  const bounds: GridRect = { top: H - stripH, left: 0, width: W, height: stripH }
 
-  return {
-    enabled: true,
-    currentPage: page,
-    totalPages,
-    itemsOnPage: endIndex - startIndex,
-    startIndex,
-    endIndex,
+  const rowWidth = visibleCount * tileW + (visibleCount - 1) * columnGap
+  const firstLeft = (W - rowWidth) / 2
+  const stripTop = bounds.top + (stripH - tileH) / 2 + (visible ? 0 : stripH)
+  const slots = new Map(others.slice(0, visibleCount).map((index, i) => [index, i]))
+
+  const getItemDimensions = (index: number): GridDimensions => {
+    if (index === pinnedIndex) return { width: spot.width, height: spot.height }
+    return slots.has(index) ? { width: tileW, height: tileH } : { width: 0, height: 0 }
   }
-}
 
-/**
- * Create an empty meet grid result
- */
-function createEmptyMeetGridResult(layoutMode: LayoutMode): MeetGridResult {
-  const getItemDimensions = () => ({ width: 0, height: 0 })
   return {
-    width: 0,
-    height: 0,
-    rows: 0,
-    cols: 0,
-    layoutMode,
-    getPosition: () => ({ top: 0, left: 0 }),
+    width: spot.width,
+    height: spot.height,
+    rows: 1,
+    cols: 1,
+    layoutMode: 'spotlight',
+    getPosition: (index: number) => {
+      if (index === pinnedIndex) return { top: spot.top, left: spot.left }
+      const slot = slots.get(index)
+      return slot === undefined
+        ? { top: -9999, left: -9999 }
+        : { top: stripTop, left: firstLeft + slot * (tileW + columnGap) }
+    },
     getItemDimensions,
-    isMainItem: () => false,
-    pagination: createDefaultPagination(0),
-    isItemVisible: () => false,
-    hiddenCount: 0,
-    getLastVisibleOthersIndex: () => -1,
-    getItemContentDimensions: () => ({ width: 0, height: 0, offsetTop: 0, offsetLeft: 0 }),
+    isMainItem: (index: number) => index === pinnedIndex,
+    pagination: createDefaultPagination(count),
+    isItemVisible: (index: number) => index === pinnedIndex || slots.has(index),
+    hiddenCount,
+    getLastVisibleOthersIndex: () => (hiddenCount > 0 ? others[visibleCount - 1] : -1),
+    getItemContentDimensions: createGetItemContentDimensions(
+      getItemDimensions,
+      options.itemAspectRatios,
+      aspectRatio
+    ),
+    overlayStrip: { bounds, visible, hideDelay: overlayHideDelay },
   }
 }
 
 /**
-/**
- * Create a flexible gallery grid using a justified layout algorithm.
- * Uses binary search to find the optimal row height that fills the container.
- * Items are packed greedily into rows, then each row is scaled to fill width.
+ * Create a presentation layout (content share + presenter + speaker strip).
+ * Content items are fitted at their own aspect ratio, the presenter's camera and
+ * the remaining speakers are placed in whatever space the content leaves over.
  */
-function createFlexibleGalleryGrid(options: MeetGridOptions): MeetGridResult {
+function createPresentationGrid(options: MeetGridOptions): MeetGridResult {
   const {
     dimensions,
     gap,
     aspectRatio,
     count,
-    itemAspectRatios = [],
-    maxItemsPerPage,
-    currentPage,
+    contentIndices = [],
+    presenterIndex,
+    itemAspectRatios,
     maxVisible = 0,
+    currentVisiblePage = 0,
+    minTileSize = DEFAULT_MIN_TILE_SIZE,
   } = options
 
-  if (count === 0) {
-    return createEmptyMeetGridResult('gallery')
+  const contents = [...new Set(contentIndices)].filter((i) => i >= 0 && i < count)
+
+  // Nothing is being shared — behave like a regular gallery
+  if (contents.length === 0) {
+    return { ...createMeetGrid({ ...options, layoutMode: 'gallery' }), layoutMode: 'presentation' }
   }
 
   const { width: W, height: H } = dimensions
   const availW = W - gap * 2
   const availH = H - gap * 2
+  const spacing = resolveSpacing(options)
+  const { rowGap, columnGap } = spacing
+  const ratio = getAspectRatio(aspectRatio)
 
-  // --- Pagination / Visual capping ---
-  let visibleCount = count
-  let hiddenCount = 0
-  let startIndex = 0
-  let endIndex = count
+  const contentSet = new Set(contents)
+  const hasPresenter =
+    presenterIndex !== undefined &&
+    presenterIndex >= 0 &&
+    presenterIndex < count &&
+    !contentSet.has(presenterIndex)
+
+  const speakers: number[] = []
+  for (let i = 0; i < count; i++) {
+    if (contentSet.has(i) || (hasPresenter && i === presenterIndex)) continue
+    speakers.push(i)
+  }
 
-  if (maxItemsPerPage && maxItemsPerPage > 0) {
-    const pagInfo = createPaginationInfo(count, maxItemsPerPage, currentPage)
-    visibleCount = pagInfo.itemsOnPage
-    startIndex = pagInfo.startIndex
-    endIndex = pagInfo.endIndex
-  } else if (maxVisible > 0 && count > maxVisible) {
-    visibleCount = maxVisible
-    hiddenCount = count - maxVisible + 1
-    startIndex = 0
-    endIndex = maxVisible
+  // Speaker pagination (presenter is always visible, like the pinned item in pin mode)
+  const totalSpeakers = speakers.length
+  const pageSize = maxVisible > 0 ? maxVisible : totalSpeakers
+  const totalPages = maxVisible > 0 ? Math.max(1, Math.ceil(totalSpeakers / maxVisible)) : 1
+  const safeCurrentVisiblePage = Math.min(Math.max(0, currentVisiblePage), totalPages - 1)
+  const startSpeaker = safeCurrentVisiblePage * pageSize
+  const endSpeaker = Math.min(startSpeaker + pageSize, totalSpeakers)
+  const visibleSpeakers = speakers.slice(startSpeaker, endSpeaker)
+  const hiddenCount =
+    safeCurrentVisiblePage > 0
+      ? 0
+      : totalSpeakers > visibleSpeakers.length
+        ? totalSpeakers - visibleSpeakers.length + 1
+        : 0
+
+  // Width/height ratio of each content item
+  const contentWHRatios = contents.map((idx) => {
+    const itemRatio = itemAspectRatios?.[idx]
+    const effectiveRatio = itemRatio && itemRatio !== 'auto' ? itemRatio : aspectRatio
+    return 1 / getAspectRatio(effectiveRatio)
+  })
+
+  // Fit all content items (side by side, or stacked if that is larger) into an area
+  function layoutContents(area: GridRect): GridRect[] {
+    const n = contents.length
+    const sumWH = contentWHRatios.reduce((s, r) => s + r, 0)
+    const sumHW = contentWHRatios.reduce((s, r) => s + 1 / r, 0)
+
+    // Side by side: shared height
+    let rowH = (area.width - (n - 1) * columnGap) / sumWH
+    if (rowH > area.height) rowH = area.height
+    const rowArea = rowH * rowH * sumWH
+
+    // Stacked: shared width
+    let colW = (area.height - (n - 1) * rowGap) / sumHW
+    if (colW > area.width) colW = area.width
+    const colArea = colW * colW * sumHW
+
+    const rects: GridRect[] = []
+    if (n === 1 || rowArea >= colArea) {
+      const blockW = rowH * sumWH + (n - 1) * columnGap
+      let left = area.left + (area.width - blockW) / 2
+      const top = area.top + (area.height - rowH) / 2
+      for (const r of contentWHRatios) {
+        rects.push({ top, left, width: rowH * r, height: rowH })
+        left += rowH * r + columnGap
+      }
+    } else {
+      const blockH = colW * sumHW + (n - 1) * rowGap
+      let top = area.top + (area.height - blockH) / 2
+      const left = area.left + (area.width - colW) / 2
+      for (const r of contentWHRatios) {
+        rects.push({ top, left, width: colW, height: colW / r })
+        top += colW / r + rowGap
+      }
+    }
+    return rects
   }
 
-  const pagination: PaginationInfo =
-    maxItemsPerPage && maxItemsPerPage > 0
-      ? createPaginationInfo(count, maxItemsPerPage, currentPage)
-      : {
-          enabled: false,
-          currentPage: 0,
-          totalPages: 1,
-          itemsOnPage: visibleCount,
-          startIndex,
-          endIndex,
+  // Speaker tiles are at most 1/presenterScale of the presenter's width
+  const presenterScale = 2
+
+  // Lay out presenter (larger, first) and speakers inside the strip
+  function layoutStrip(strip: GridRect, vertical: boolean): Map<number, GridRect> {
+    const rects = new Map<number, GridRect>()
+    let speakerArea = strip
+
+    if (hasPresenter) {
+      const hasSpeakers = visibleSpeakers.length > 0
+      let pw: number
+      let ph: number
+      if (vertical) {
+        pw = strip.width
+        ph = pw * ratio
+        const maxH = hasSpeakers ? strip.height / 2 : strip.height
+        if (ph > maxH) {
+          ph = maxH
+          pw = ph / ratio
+        }
+      } else {
+        ph = strip.height
+        pw = ph / ratio
+        const maxW = hasSpeakers ? strip.width / 2 : strip.width
+        if (pw > maxW) {
+          pw = maxW
+          ph = pw * ratio
         }
+      }
 
-  // Slice to only visible items for layout
-  const visibleIndices: number[] = []
-  for (let i = startIndex; i < endIndex; i++) {
-    visibleIndices.push(i)
-  }
+      if (vertical) {
+        rects.set(presenterIndex!, {
+          top: hasSpeakers ? strip.top : strip.top + (strip.height - ph) / 2,
+          left: strip.left + (strip.width - pw) / 2,
+          width: pw,
+          height: ph,
+        })
+        speakerArea = {
+          ...strip,
+          top: strip.top + ph + rowGap,
+          height: strip.height - ph - rowGap,
+        }
+      } else {
+        rects.set(presenterIndex!, {
+          top: strip.top + (strip.height - ph) / 2,
+          left: hasSpeakers ? strip.left : strip.left + (strip.width - pw) / 2,
+          width: pw,
+          height: ph,
+        })
+        speakerArea = {
+          ...strip,
+          left: strip.left + pw + columnGap,
+          width: strip.width - pw - columnGap,
+        }
+      }
+    }
 
-  // For each visible item, compute width/height ratio
-  const itemWHRatios: number[] = []
-  for (const idx of visibleIndices) {
-    const ratioStr = itemAspectRatios[idx] ?? aspectRatio
-    const hw = getAspectRatio(ratioStr)
-    itemWHRatios.push(1 / hw) // width / height
+    if (visibleSpeakers.length > 0 && speakerArea.width > 0 && speakerArea.height > 0) {
+      let grid = createGridInRect(speakerArea, visibleSpeakers.length, aspectRatio, spacing)
+
+      // Keep the presenter clearly larger: scale the speaker tiles down and re-pack them
+      // into as many columns as now fit
+      const maxSpeakerW = hasPresenter ? rects.get(presenterIndex!)!.width / presenterScale : 0
+      if (maxSpeakerW > 0 && grid.width > maxSpeakerW) {
+        const n = visibleSpeakers.length
+        const tile = { width: maxSpeakerW, height: grid.height * (maxSpeakerW / grid.width) }
+        const fitCols = Math.floor((speakerArea.width + columnGap) / (tile.width + columnGap))
+        const cols = Math.min(n, Math.max(grid.cols, fitCols))
+        const rows = Math.ceil(n / cols)
+        const positioner = createGridItemPositioner({
+          parentDimensions: { width: speakerArea.width, height: speakerArea.height },
+          dimensions: tile,
+          rows,
+          cols,
+          count: n,
+          gap: 0,
+          rowGap,
+          columnGap,
+        })
+        grid = {
+          ...grid,
+          ...tile,
+          rows,
+          cols,
+          getItemDimensions: () => tile,
+          getPosition: (i: number) => {
+            const { top, left } = positioner(i)
+            return { top: top + speakerArea.top, left: left + speakerArea.left }
+          },
+        }
+      }
+
+      visibleSpeakers.forEach((idx, i) => {
+        rects.set(idx, { ...grid.getPosition(i), width: grid.width, height: grid.height })
+      })
+    }
+
+    return rects
   }
 
-  const effectiveCount = visibleIndices.length
+  const stripCount = visibleSpeakers.length + (hasPresenter ? 1 : 0)
+  const fullArea: GridRect = { top: gap, left: gap, width: availW, height: availH }
+
+  let rects = new Map<number, GridRect>()
+  let stripSide: 'right' | 'bottom' | null = null
+
+  if (stripCount === 0) {
+    layoutContents(fullArea).forEach((rect, i) => rects.set(contents[i], rect))
+  } else {
+    let bestScore = -1
+
+    for (const side of ['right', 'bottom'] as const) {
+      const vertical = side === 'right'
+      const axis = vertical ? availW : availH
+
+      // The strip takes whatever the fitted content leaves over. When that is too small
+      // for its tiles (minTileSize, doubled for the presenter), the content shrinks instead.
+      const fitted = layoutContents(fullArea)
+      const blockW =
+        Math.max(...fitted.map((r) => r.left + r.width)) - Math.min(...fitted.map((r) => r.left))
+      const blockH =
+        Math.max(...fitted.map((r) => r.top + r.height)) - Math.min(...fitted.map((r) => r.top))
+      const leftover = vertical ? availW - blockW - columnGap : availH - blockH - rowGap
+      const minTile = vertical ? minTileSize.width : minTileSize.height
+      const minStrip = Math.min(minTile * (hasPresenter ? presenterScale : 1), axis / 2)
+      const stripSize = Math.max(leftover, minStrip)
+
+      const contentArea: GridRect = vertical
+        ? { top: gap, left: gap, width: availW - stripSize - columnGap, height: availH }
+        : { top: gap, left: gap, width: availW, height: availH - stripSize - rowGap }
+      const strip: GridRect = vertical
+        ? { top: gap, left: gap + contentArea.width + columnGap, width: stripSize, height: availH }
+        : { top: gap + contentArea.height + rowGap, left: gap, width: availW, height: stripSize }
+
+      const candidate = new Map<number, GridRect>()
+      layoutContents(contentArea).forEach((rect, i) => candidate.set(contents[i], rect))
+      for (const [idx, rect] of layoutStrip(strip, vertical)) {
+        candidate.set(idx, rect)
+      }
+
+      // Prefer the arrangement that covers the most of the container
+      let score = 0
+      for (const rect of candidate.values()) {
+        score += rect.width * rect.height
+      }
+      if (score > bestScore) {
+        bestScore = score
+        rects = candidate
+        stripSide = side
+      }
+    }
+  }
+
+  const mainRect = rects.get(contents[0])!
+
+  const pagination: PaginationInfo = {
+    enabled: maxVisible > 0 && totalSpeakers > maxVisible,
+    currentPage: safeCurrentVisiblePage,
+    totalPages,
+    itemsOnPage: visibleSpeakers.length,
+    startIndex: startSpeaker,
+    endIndex: endSpeaker,
+  }
+
+  const getItemDimensions = (index: number): GridDimensions => {
+    const rect = rects.get(index)
+    return rect ? { width: rect.width, height: rect.height } : { width: 0, height: 0 }
+  }
+
+  return {
+    width: mainRect.width,
+    height: mainRect.height,
+    rows: stripSide === 'bottom' ? 2 : 1,
+    cols: stripSide === 'right' ? 2 : 1,
+    layoutMode: 'presentation',
+    getPosition: (index: number) => {
+      const rect = rects.get(index)
+      return rect ? { top: rect.top, left: rect.left } : { top: -9999, left: -9999 }
+    },
+    getItemDimensions,
+    isMainItem: (index: number) => contentSet.has(index),
+    pagination,
+    isItemVisible: (index: number) => rects.has(index),
+    hiddenCount,
+    getLastVisibleOthersIndex: () =>
+      visibleSpeakers.length > 0 ? visibleSpeakers[visibleSpeakers.length - 1] : -1,
+    getItemContentDimensions: createGetItemContentDimensions(
+      getItemDimensions,
+      itemAspectRatios,
+      aspectRatio
+    ),
+  }
+}
+
+/**
+ * Create a filmstrip layout (single row or column of fixed-ratio tiles).
+ * Tiles fill the cross axis and overflow along the main axis; the result reports
+ * the scroll extent and per-item scroll offsets so the container can scroll.
+ */
+function createFilmstripGrid(options: MeetGridOptions): MeetGridResult {
+  const {
+    dimensions,
+    gap,
+    aspectRatio,
+    count,
+    filmstripOrientation = 'horizontal',
+    itemAspectRatios,
+  } = options
+  const { width: W, height: H } = dimensions
+  const isHorizontal = filmstripOrientation === 'horizontal'
+  const ratio = getAspectRatio(aspectRatio)
+  const { rowGap, columnGap } = resolveSpacing(options)
+  const tileGap = isHorizontal ? columnGap : rowGap
+
+  const tileW = Math.max(0, isHorizontal ? (H - gap * 2) / ratio : W - gap * 2)
+  const tileH = Math.max(0, isHorizontal ? H - gap * 2 : (W - gap * 2) * ratio)
+  const step = (isHorizontal ? tileW : tileH) + tileGap
+
+  // Content length along the main axis, including outer gaps
+  const contentLength = count * step - tileGap + gap * 2
+  const viewportLength = isHorizontal ? W : H
+  const scrollLength = Math.max(contentLength, viewportLength)
+  // Center the strip when everything fits
+  const startOffset = contentLength < viewportLength ? (viewportLength - contentLength) / 2 : 0
+
+  const getPosition = (index: number): Position => {
+    if (index < 0 || index >= count) {
+      return { top: -9999, left: -9999 }
+    }
+    const main = startOffset + gap + index * step
+    return isHorizontal ? { top: gap, left: main } : { top: main, left: gap }
+  }
+
+  const getScrollOffset = (index: number): Position => {
+    const { top, left } = getPosition(index)
+    const maxScroll = scrollLength - viewportLength
+    const offset = Math.min(Math.max(0, (isHorizontal ? left : top) - gap), maxScroll)
+    return isHorizontal ? { top: 0, left: offset } : { top: offset, left: 0 }
+  }
+
+  const getItemDimensions = () => ({ width: tileW, height: tileH })
+
+  return {
+    width: tileW,
+    height: tileH,
+    rows: isHorizontal ? 1 : count,
+    cols: isHorizontal ? count : 1,
+    layoutMode: 'filmstrip',
+    getPosition,
+    getItemDimensions,
+    isMainItem: () => false,
+    pagination: createDefaultPagination(count),
+    isItemVisible: (index: number) => index >= 0 && index < count,
+    hiddenCount: 0,
+    getLastVisibleOthersIndex: () => -1,
+    getItemContentDimensions: createGetItemContentDimensions(
+      getItemDimensions,
+      itemAspectRatios,
+      aspectRatio
+    ),
+    scrollExtent: isHorizontal
+      ? { width: scrollLength, height: H }
+      : { width: W, height: scrollLength },
+    getScrollOffset,
+  }
+}
+
+/**
+ * Number of bubbles per row in a hex packing: rows alternate `cols` and `cols - 1` bubbles,
+ * so every other row sits half a step to the side.
+ */
+function getHexRowSizes(count: number, cols: number): number[] {
+  const sizes: number[] = []
+  let placed = 0
+  while (placed < count) {
+    const size = cols > 1 && sizes.length % 2 === 1 ? cols - 1 : cols
+    sizes.push(Math.min(size, count - placed))
+    placed += size
+  }
+  return sizes
+}
+
+/**
+ * Pack circles of equal size into a rectangle using a hex grid.
+ * Picks the bubbles-per-row count giving the largest diameter (capped at maxDiameter)
+ * and centres the packing in the rectangle.
+ */
+function createBubblesInRect(
+  rect: GridRect,
+  count: number,
+  spacing: TileSpacing,
+  maxDiameter = Infinity
+): Bubble[] {
+  if (count === 0 || rect.width <= 0 || rect.height <= 0) {
+    return []
+  }
+  const { rowGap, columnGap } = spacing
+
+  // Vertical step between rows, relative to diameter + rowGap
+  const rowStepFactor = (cols: number) => (cols > 1 ? Math.sqrt(3) / 2 : 1)
+
+  let bestCols = 1
+  let bestDiameter = 0
+  for (let cols = 1; cols <= count; cols++) {
+    const rows = getHexRowSizes(count, cols).length
+    const k = rowStepFactor(cols)
+    const byWidth = (rect.width - (cols - 1) * columnGap) / cols
+    const byHeight = (rect.height - (rows - 1) * rowGap * k) / (1 + (rows - 1) * k)
+    const diameter = Math.min(byWidth, byHeight, maxDiameter)
+    if (diameter > bestDiameter) {
+      bestDiameter = diameter
+      bestCols = cols
+    }
+  }
+
+  const d = Math.max(0, bestDiameter)
+  const step = d + columnGap
+  const rowSizes = getHexRowSizes(count, bestCols)
+  const rowStep = (d + rowGap) * rowStepFactor(bestCols)
+  const blockHeight = d + (rowSizes.length - 1) * rowStep
+  const firstCenterY = rect.top + (rect.height - blockHeight) / 2 + d / 2
+
+  const bubbles: Bubble[] = []
+  rowSizes.forEach((size, row) => {
+    // A short last row takes the middle slots of its full pattern so it stays on the hex grid
+    const slots = bestCols > 1 && row % 2 === 1 ? bestCols - 1 : bestCols
+    const firstSlot = Math.floor((slots - size) / 2)
+    const rowLeft = rect.left + (rect.width - (slots * d + (slots - 1) * columnGap)) / 2
+    for (let i = 0; i < size; i++) {
+      bubbles.push({
+        centerX: rowLeft + (firstSlot + i) * step + d / 2,
+        centerY: firstCenterY + row * rowStep,
+        radius: d / 2,
+      })
+    }
+  })
+
+  return bubbles
+}
+
+/**
+ * Create a gallery where audio-only items (hasVideo false) are packed as bubbles.
+ * Video items get a uniform gallery above a compact bubble region sized for bubbleSize;
+ * without video items, bubbles fill the container.
+ * Only the items of the current page (or the first maxVisible) are laid out.
+ */
+function createAudioBubbleGrid(options: MeetGridOptions): MeetGridResult {
+  const { dimensions, gap, aspectRatio, hasVideo = [], bubbleSize = 96 } = options
+  const { width: W, height: H } = dimensions
+  const availW = W - gap * 2
+  const availH = H - gap * 2
+  const spacing = resolveSpacing(options)
+  const { rowGap, columnGap } = spacing
+  const { pagination, visibleIndices, hiddenCount } = resolveGalleryPage(options)
+
+  const videoIndices: number[] = []
+  const audioIndices: number[] = []
+  for (const i of visibleIndices) {
+    if (hasVideo[i] === false) {
+      audioIndices.push(i)
+    } else {
+      videoIndices.push(i)
+    }
+  }
+
+  let bubbleRect: GridRect = { top: gap, left: gap, width: availW, height: availH }
+  let maxDiameter = Infinity
+  const rects = new Map<number, GridRect>()
+
+  if (videoIndices.length > 0) {
+    // Height of the hex packing at the preferred size, limited to 40% of the container
+    const cols = Math.max(1, Math.floor((availW + columnGap) / (bubbleSize + columnGap)))
+    const rows = getHexRowSizes(audioIndices.length, cols).length
+    const k = cols > 1 ? Math.sqrt(3) / 2 : 1
+    const bubbleH = Math.min(bubbleSize + (rows - 1) * (bubbleSize + rowGap) * k, availH * 0.4)
+    bubbleRect = { top: gap + availH - bubbleH, left: gap, width: availW, height: bubbleH }
+    maxDiameter = bubbleSize
+
+    const videoRect: GridRect = {
+      top: gap,
+      left: gap,
+      width: availW,
+      height: Math.max(0, availH - bubbleH - rowGap),
+    }
+    const grid = createGridInRect(videoRect, videoIndices.length, aspectRatio, spacing)
+    videoIndices.forEach((index, i) => {
+      rects.set(index, { ...grid.getPosition(i), width: grid.width, height: grid.height })
+    })
+  }
+
+  const bubbles = new Map<number, Bubble>()
+  createBubblesInRect(bubbleRect, audioIndices.length, spacing, maxDiameter).forEach(
+    (bubble, i) => {
+      const index = audioIndices[i]
+      bubbles.set(index, bubble)
+      rects.set(index, {
+        top: bubble.centerY - bubble.radius,
+        left: bubble.centerX - bubble.radius,
+        width: bubble.radius * 2,
+        height: bubble.radius * 2,
+      })
+    }
+  )
+
+  const getItemDimensions = (index: number): GridDimensions => {
+    const rect = rects.get(index)
+    return rect ? { width: rect.width, height: rect.height } : { width: 0, height: 0 }
+  }
+  const firstVideo = rects.get(videoIndices[0] ?? audioIndices[0])
+
+  return {
+    width: firstVideo?.width ?? 0,
+    height: firstVideo?.height ?? 0,
+    rows: 1,
+    cols: 1,
+    layoutMode: 'gallery',
+    getPosition: (index: number) => {
+      const rect = rects.get(index)
+      return rect ? { top: rect.top, left: rect.left } : { top: -9999, left: -9999 }
+    },
+    getItemDimensions,
+    isMainItem: () => false,
+    pagination,
+    isItemVisible: (index: number) => rects.has(index),
+    hiddenCount,
+    getLastVisibleOthersIndex: () =>
+      hiddenCount > 0 ? visibleIndices[visibleIndices.length - 1] : -1,
+    getItemContentDimensions: createGetItemContentDimensions(
+      getItemDimensions,
+      options.itemAspectRatios,
+      aspectRatio
+    ),
+    getBubble: (index: number) => bubbles.get(index),
+  }
+}
+
+const DEFAULT_MIN_TILE_SIZE: GridDimensions = { width: 160, height: 90 }
+
+/**
+ * Largest number of items whose uniform tiles stay at minTileSize or larger (at least one).
+ * Tiles only shrink as items are added, so the capacity is binary-searched.
+ */
+function resolveMinTileCapacity(options: MeetGridOptions): number {
+  const { dimensions, aspectRatio, count, minTileSize = DEFAULT_MIN_TILE_SIZE } = options
+  if (dimensions.width === 0 || dimensions.height === 0) {
+    return count
+  }
+
+  // Small mobile screens stretch tiles to the container ratio (see the gallery layout)
+  const { width: W, height: H } = dimensions
+  const tileRatio = W < 500 ? `${Math.round(W)}:${Math.round(H)}` : aspectRatio
+
+  let capacity = 1
+  let high = count
+  while (capacity < high) {
+    const n = Math.ceil((capacity + high) / 2)
+    const tile = getGridItemDimensions({ ...options, count: n, aspectRatio: tileRatio })
+    if (tile.width < minTileSize.width || tile.height < minTileSize.height) {
+      high = n - 1
+    } else {
+      capacity = n
+    }
+  }
+  return capacity
+}
+
+/**
+ * Honour minTileSize in layouts without a closed-form capacity (justified gallery, pin
+ * thumbnails): lowers the given limit until every visible non-main tile is at
+ * minTileSize or larger. Items that no longer fit overflow into hiddenCount or onto
+ * further pages instead of shrinking.
+ * The limit is binary-searched, so this takes O(log n) layouts. Where a different row
+ * split makes tiles shrink when an item is removed, it can settle on a smaller limit.
+ */
+function fitMinTileSize(
+  options: MeetGridOptions,
+  limit: 'maxVisible' | 'maxItemsPerPage',
+  create: (options: MeetGridOptions) => MeetGridResult
+): MeetGridResult {
+  const { count, minTileSize } = options
+  const unconstrained = { ...options, minTileSize: undefined }
+  if (!minTileSize) {
+    return create(unconstrained)
+  }
+
+  const fits = (result: MeetGridResult) => {
+    for (let i = 0; i < count; i++) {
+      if (!result.isItemVisible(i) || result.isMainItem(i)) continue
+      const { width, height } = result.getItemDimensions(i)
+      if (width < minTileSize.width || height < minTileSize.height) return false
+    }
+    return true
+  }
+
+  const initial = options[limit] ?? 0
+  const result = create(unconstrained)
+  if (fits(result)) {
+    return result
+  }
+
+  // Tiles grow as the limit drops: binary-search the largest limit that still fits
+  let low = 1
+  let high = (initial > 0 ? Math.min(initial, count) : count) - 1
+  let best: MeetGridResult | undefined
+  while (low <= high) {
+    const n = Math.floor((low + high) / 2)
+    const candidate = create({ ...unconstrained, [limit]: n })
+    if (fits(candidate)) {
+      best = candidate
+      low = n + 1
+    } else {
+      high = n - 1
+    }
+  }
+  return best ?? create({ ...unconstrained, [limit]: 1 })
+}
+
+/**
+ * Create a scrollable gallery grid.
+ * Uses the regular gallery when every tile fits at minTileSize or larger; otherwise
+ * fits as many columns as the minimum width allows and grows vertically.
+ */
+function createScrollableGalleryGrid(options: MeetGridOptions): MeetGridResult {
+  const {
+    dimensions,
+    gap,
+    aspectRatio,
+    count,
+    itemAspectRatios,
+    minTileSize = DEFAULT_MIN_TILE_SIZE,
+  } = options
+  const { width: W, height: H } = dimensions
+  const ratio = getAspectRatio(aspectRatio)
+  const { rowGap, columnGap } = resolveSpacing(options)
+
+  let { width: tileW, height: tileH, rows, cols } = getGridItemDimensions(options)
+
+  if (tileW < minTileSize.width || tileH < minTileSize.height) {
+    // Narrowest tile satisfying both minimums at the item aspect ratio
+    const minW = Math.max(minTileSize.width, minTileSize.height / ratio)
+    const fitCols = Math.floor((W - gap * 2 + columnGap) / (minW + columnGap))
+    cols = Math.min(count, Math.max(1, fitCols))
+    rows = Math.ceil(count / cols)
+    tileW = Math.max(0, (W - gap * 2 - columnGap * (cols - 1)) / cols)
+    tileH = tileW * ratio
+  }
+
+  const contentHeight = rows * tileH + (rows - 1) * rowGap + gap * 2
+  const scrollHeight = Math.max(contentHeight, H)
+  // Rows are centered vertically when everything fits
+  const firstTop = (scrollHeight - contentHeight) / 2 + gap
+  const rowStep = tileH + rowGap
+
+  const positioner = createGridItemPositioner({
+    parentDimensions: { width: W, height: scrollHeight },
+    dimensions: { width: tileW, height: tileH },
+    rows,
+    cols,
+    count,
+    gap,
+    rowGap,
+    columnGap,
+  })
+
+  const getPosition = (index: number): Position =>
+    index < 0 || index >= count ? { top: -9999, left: -9999 } : positioner(index)
+
+  const getScrollOffset = (index: number): Position => {
+    const { top } = getPosition(index)
+    return { top: Math.min(Math.max(0, top - gap), scrollHeight - H), left: 0 }
+  }
+
+  const getVisibleRange = (viewport: { top: number; height: number }): ItemRange => {
+    // Row r spans [firstTop + r * rowStep, firstTop + r * rowStep + tileH)
+    const firstRow = Math.max(0, Math.floor((viewport.top - firstTop - tileH) / rowStep) + 1)
+    const lastRow = Math.min(rows, Math.ceil((viewport.top + viewport.height - firstTop) / rowStep))
+    const startIndex = Math.min(count, firstRow * cols)
+    return { startIndex, endIndex: Math.max(startIndex, Math.min(count, lastRow * cols)) }
+  }
+
+  const getItemDimensions = () => ({ width: tileW, height: tileH })
+
+  return {
+    width: tileW,
+    height: tileH,
+    rows,
+    cols,
+    layoutMode: 'gallery',
+    getPosition,
+    getItemDimensions,
+    isMainItem: () => false,
+    pagination: createDefaultPagination(count),
+    isItemVisible: (index: number) => index >= 0 && index < count,
+    hiddenCount: 0,
+    getLastVisibleOthersIndex: () => -1,
+    getItemContentDimensions: createGetItemContentDimensions(
+      getItemDimensions,
+      itemAspectRatios,
+      aspectRatio
+    ),
+    scrollExtent: { width: W, height: scrollHeight },
+    getScrollOffset,
+    getVisibleRange,
+  }
+}
+
+/**
+ * Build options for laying out a subset of items.
+ * `indices[i]` is the original index of subset item i; per-item options are re-indexed.
+ */
+function createSubsetOptions(options: MeetGridOptions, indices: number[]): MeetGridOptions {
+  const toSubset = new Map(indices.map((index, i) => [index, i]))
+  const mapIndex = (index: number | undefined) =>
+    index === undefined ? undefined : toSubset.get(index)
+  const mapIndices = (list: number[] | undefined) =>
+    list
+      ?.map((index) => toSubset.get(index))
+      .filter((index): index is number => index !== undefined)
+
+  const { groups, templateAreas, freeformLayout } = options
+
+  return {
+    ...options,
+    count: indices.length,
+    pinnedIndex: mapIndex(options.pinnedIndex),
+    pinnedIndices: mapIndices(options.pinnedIndices),
+    contentIndices: mapIndices(options.contentIndices),
+    presenterIndex: mapIndex(options.presenterIndex),
+    itemAspectRatios: options.itemAspectRatios && indices.map((i) => options.itemAspectRatios![i]),
+    weights: options.weights && indices.map((i) => options.weights![i]),
+    hasVideo: options.hasVideo && indices.map((i) => options.hasVideo![i]),
+    twoPersonFloatIndex: mapIndex(options.twoPersonFloatIndex),
+    selfIndex: mapIndex(options.selfIndex),
+    floatIndices: mapIndices(options.floatIndices),
+    floatSizes: options.floatSizes && indices.map((i) => options.floatSizes![i]),
+    floatAnchors: options.floatAnchors && indices.map((i) => options.floatAnchors![i]),
+    stickyIndices: mapIndices(options.stickyIndices),
+    stageIndices: mapIndices(options.stageIndices),
+    groups: groups?.map((group) => ({ ...group, indices: mapIndices(group.indices)! })),
+    templateAreas:
+      templateAreas &&
+      Object.fromEntries(
+        Object.entries(templateAreas).map(([name, list]) => [name, mapIndices(list)!])
+      ),
+    itemRoles: options.itemRoles && indices.map((i) => options.itemRoles![i]),
+    freeformLayout: freeformLayout && {
+      ...freeformLayout,
+      items: Object.fromEntries(
+        indices.flatMap((index, i) => {
+          const item = freeformLayout.items[index]
+          return item ? [[i, item]] : []
+        })
+      ),
+    },
+    stackIndex: mapIndex(options.stackIndex),
+    itemOrder: undefined,
+  }
+}
+
+/**
+ * Map a result computed for a subset of items back to the original item indices.
+ * `indices[i]` is the original index of subset item i; items outside the subset are hidden.
+ * Pagination start/end indices stay relative to the subset. The visible range is mapped
+ * through its ends, which assumes `indices` is ascending.
+ */
+function remapMeetGridResult(result: MeetGridResult, indices: number[]): MeetGridResult {
+  const toSubset = new Map(indices.map((index, i) => [index, i]))
+  const { getScrollOffset, getVisibleRange, getBubble, getItemZIndex, pagination, floatItems } =
+    result
+
+  return {
+    ...result,
+    pagination: pagination.pageIndices
+      ? { ...pagination, pageIndices: pagination.pageIndices.map((i) => indices[i]) }
+      : pagination,
+    getPosition: (index: number) => {
+      const i = toSubset.get(index)
+      return i === undefined ? { top: -9999, left: -9999 } : result.getPosition(i)
+    },
+    getItemDimensions: (index: number) => {
+      const i = toSubset.get(index)
+      return i === undefined ? { width: 0, height: 0 } : result.getItemDimensions(i)
+    },
+    isMainItem: (index: number) => {
+      const i = toSubset.get(index)
+      return i !== undefined && result.isMainItem(i)
+    },
+    isItemVisible: (index: number) => {
+      const i = toSubset.get(index)
+      return i !== undefined && result.isItemVisible(i)
+    },
+    getLastVisibleOthersIndex: () => {
+      const i = result.getLastVisibleOthersIndex()
+      return i >= 0 ? indices[i] : -1
+    },
+    getItemContentDimensions: (index: number, itemRatio?: ItemAspectRatio) => {
+      const i = toSubset.get(index)
+      return i === undefined
+        ? { width: 0, height: 0, offsetTop: 0, offsetLeft: 0 }
+        : result.getItemContentDimensions(i, itemRatio)
+    },
+    floatIndex: result.floatIndex !== undefined ? indices[result.floatIndex] : undefined,
+    floatItems: floatItems?.map((float) => ({ ...float, index: indices[float.index] })),
+    stackIndex: result.stackIndex !== undefined ? indices[result.stackIndex] : undefined,
+    getScrollOffset:
+      getScrollOffset &&
+      ((index: number) => {
+        const i = toSubset.get(index)
+        return i === undefined ? { top: 0, left: 0 } : getScrollOffset(i)
+      }),
+    // Subsets keep the item order, so the range's ends map to the same items
+    getVisibleRange:
+      getVisibleRange &&
+      ((viewport) => {
+        const { startIndex, endIndex } = getVisibleRange(viewport)
+        return startIndex < endIndex
+          ? { startIndex: indices[startIndex], endIndex: indices[endIndex - 1] + 1 }
+          : { startIndex: 0, endIndex: 0 }
+      }),
+    getBubble:
+      getBubble &&
+      ((index: number) => {
+        const i = toSubset.get(index)
+        return i === undefined ? undefined : getBubble(i)
+      }),
+    getItemZIndex:
+      getItemZIndex &&
+      ((index: number) => {
+        const i = toSubset.get(index)
+        return i === undefined ? 0 : getItemZIndex(i)
+      }),
+  }
+}
+
+/**
+ * Resolve the floating PiP size.
+ * Priority: floatWidth/Height > floatBreakpoints > legacy default
+ */
+function resolveFloatDimensions(options: MeetGridOptions): GridDimensions {
+  const { width: W } = options.dimensions
+  if (options.floatBreakpoints) {
+    const resolved = resolveFloatSize(W, options.floatBreakpoints)
+    return {
+      width: options.floatWidth ?? resolved.width,
+      height: options.floatHeight ?? resolved.height,
+    }
+  }
+  const isMobileSize = W < 500
+  return {
+    width: options.floatWidth ?? (isMobileSize ? 130 : 180),
+    height: options.floatHeight ?? (isMobileSize ? 175 : 240),
+  }
+}
+
+/**
+ * Resolve a floating PiP item: floatSizes/floatAnchors, falling back to the PiP defaults
+ */
+function createFloatItem(options: MeetGridOptions, index: number): FloatItem {
+  const size = options.floatSizes?.[index] ?? resolveFloatDimensions(options)
+  return {
+    index,
+    width: size.width,
+    height: size.height,
+    anchor: options.floatAnchors?.[index] ?? 'bottom-right',
+  }
+}
+
+/**
+ * Resolve the floating items: a floating self-view first, then floatIndices.
+ * Invalid, duplicate and hidden/docked self-view indices are dropped.
+ */
+function resolveFloatIndices(options: MeetGridOptions): number[] {
+  const { count, floatIndices = [], selfIndex, selfViewMode } = options
+  const floats = selfViewMode === 'float' && selfIndex !== undefined ? [selfIndex] : []
+  for (const index of floatIndices) {
+    if (selfViewMode === 'hidden' || selfViewMode === 'corner-slot') {
+      if (index === selfIndex) continue
+    }
+    floats.push(index)
+  }
+  return [...new Set(floats)].filter((index) => index >= 0 && index < count)
+}
+
+/**
+ * Lay out everyone else, then float the given items over the layout.
+ * Floats rest at their anchors, stacked where they share a corner.
+ */
+function createFloatingGrid(options: MeetGridOptions, floatIndices: number[]): MeetGridResult {
+  const { count, dimensions, gap } = options
+
+  const floatSet = new Set(floatIndices)
+  const rest: number[] = []
+  for (let i = 0; i < count; i++) {
+    if (!floatSet.has(i)) rest.push(i)
+  }
+  const result = remapMeetGridResult(createMeetGrid(createSubsetOptions(options, rest)), rest)
+
+  const floatItems = floatIndices.map((index) => createFloatItem(options, index))
+  const floatPositions = getFloatPositions(dimensions, floatItems, {
+    gap,
+    direction: options.floatStackDirection,
+  })
+  const floatOf = new Map(floatItems.map((float) => [float.index, float]))
+
+  const getItemDimensions = (index: number): GridDimensions => {
+    const float = floatOf.get(index)
+    return float ? { width: float.width, height: float.height } : result.getItemDimensions(index)
+  }
+  const getFloatContentDimensions = createGetItemContentDimensions(
+    getItemDimensions,
+    options.itemAspectRatios,
+    options.aspectRatio,
+    options.tileChrome
+  )
+
+  return {
+    ...result,
+    getPosition: (index: number) => floatPositions.get(index) ?? result.getPosition(index),
+    getItemDimensions,
+    isItemVisible: (index: number) => floatSet.has(index) || result.isItemVisible(index),
+    getItemContentDimensions: (index: number, itemRatio?: ItemAspectRatio) =>
+      floatSet.has(index)
+        ? getFloatContentDimensions(index, itemRatio)
+        : result.getItemContentDimensions(index, itemRatio),
+    floatIndex: floatIndices[0],
+    floatDimensions: getItemDimensions(floatIndices[0]),
+    floatItems,
+  }
+}
+
+/**
+ * Apply the self-view policy for 'hidden' and 'corner-slot'.
+ * Everyone else is laid out without the self tile, which is then hidden
+ * or docked in the bottom-right corner.
+ */
+function createSelfViewGrid(options: MeetGridOptions): MeetGridResult {
+  const { count, selfIndex, selfViewMode, dimensions } = options
+
+  const others: number[] = []
+  for (let i = 0; i < count; i++) {
+    if (i !== selfIndex) others.push(i)
+  }
+  const result = remapMeetGridResult(createMeetGrid(createSubsetOptions(options, others)), others)
+
+  if (selfViewMode === 'hidden') {
+    return result
+  }
+
+  const selfDims =
+    (selfIndex !== undefined && options.floatSizes?.[selfIndex]) || resolveFloatDimensions(options)
+  const getItemDimensions = (index: number) =>
+    index === selfIndex ? selfDims : result.getItemDimensions(index)
+  const getSelfContentDimensions = createGetItemContentDimensions(
+    getItemDimensions,
+    options.itemAspectRatios,
+    options.aspectRatio,
+    options.tileChrome
+  )
+
+  // Corner slot: fixed above everything else, inside the outer padding
+  const { padding } = resolveSpacing(options)
+  const cornerPosition = {
+    top: dimensions.height - selfDims.height - padding.bottom,
+    left: dimensions.width - selfDims.width - padding.right,
+  }
+  const { getItemZIndex } = result
+  const selfZIndex = Math.max(0, ...others.map((i) => getItemZIndex?.(i) ?? 0)) + 1
+
+  return {
+    ...result,
+    getPosition: (index: number) =>
+      index === selfIndex ? cornerPosition : result.getPosition(index),
+    getItemDimensions,
+    isItemVisible: (index: number) => index === selfIndex || result.isItemVisible(index),
+    getItemContentDimensions: (index: number, itemRatio?: ItemAspectRatio) =>
+      index === selfIndex
+        ? getSelfContentDimensions(index, itemRatio)
+        : result.getItemContentDimensions(index, itemRatio),
+    getItemZIndex: (index: number) =>
+      index === selfIndex ? selfZIndex : (getItemZIndex?.(index) ?? 0),
+  }
+}
+
+/**
+ * Lay out a built-in mode with tile chrome around every video area.
+ * The chrome acts as extra gap between videos (and extra padding at the container edges),
+ * so the videos keep their aspect ratio; each visible cell is then grown by the chrome.
+ */
+function createChromeGrid(options: MeetGridOptions): MeetGridResult {
+  const chrome = resolveTileChrome(options.tileChrome)
+  const result = createMeetGrid(createVideoAreaOptions(options, chrome))
+
+  // Floats are not grid cells: they keep their size and reserve the chrome inside it
+  const floatSet = new Set(result.floatItems?.map((float) => float.index))
+  const isCell = (index: number) => result.isItemVisible(index) && !floatSet.has(index)
+  const grow = ({ width, height }: GridDimensions): GridDimensions =>
+    width > 0 || height > 0
+      ? { width: width + chrome.left + chrome.right, height: height + chrome.top + chrome.bottom }
+      : { width, height }
+
+  const getItemDimensions = (index: number) =>
+    isCell(index) ? grow(result.getItemDimensions(index)) : result.getItemDimensions(index)
+  const getFloatContentDimensions = createGetItemContentDimensions(
+    result.getItemDimensions,
+    options.itemAspectRatios,
+    options.aspectRatio,
+    chrome
+  )
+
+  return {
+    ...result,
+    ...grow(result),
+    getPosition: (index: number) => {
+      const { top, left } = result.getPosition(index)
+      return isCell(index) ? { top: top - chrome.top, left: left - chrome.left } : { top, left }
+    },
+    getItemDimensions,
+    getItemContentDimensions: (index: number, itemRatio?: ItemAspectRatio) => {
+      if (floatSet.has(index)) return getFloatContentDimensions(index, itemRatio)
+      const content = result.getItemContentDimensions(index, itemRatio)
+      return isCell(index)
+        ? {
+            ...content,
+            offsetTop: content.offsetTop + chrome.top,
+            offsetLeft: content.offsetLeft + chrome.left,
+          }
+        : content
+    },
+  }
+}
+
+/**
+ * Options that lay out the video areas of tiles with chrome: the chrome is added to the
+ * row/column gaps and to the outer padding.
+ */
+function createVideoAreaOptions(options: MeetGridOptions, chrome: GridPadding): MeetGridOptions {
+  const { padding, rowGap, columnGap } = resolveSpacing(options)
+  return {
+    ...options,
+    tileChrome: undefined,
+    padding: {
+      top: padding.top + chrome.top,
+      right: padding.right + chrome.right,
+      bottom: padding.bottom + chrome.bottom,
+      left: padding.left + chrome.left,
+    },
+    rowGap: rowGap + chrome.top + chrome.bottom,
+    columnGap: columnGap + chrome.left + chrome.right,
+  }
+}
+
+/**
+ * Lay out a built-in mode inside the padded area of the container.
+ * The layout runs on the inner rectangle without outer margin (gap 0, row and column gaps
+ * kept), then positions and bounds are shifted back into container coordinates.
+ */
+function createPaddedGrid(options: MeetGridOptions): MeetGridResult {
+  const { dimensions } = options
+  const { padding, rowGap, columnGap } = resolveSpacing(options)
+  const result = createMeetGrid({
+    ...options,
+    dimensions: {
+      width: Math.max(0, dimensions.width - padding.left - padding.right),
+      height: Math.max(0, dimensions.height - padding.top - padding.bottom),
+    },
+    gap: 0,
+    padding: undefined,
+    rowGap,
+    columnGap,
+  })
+
+  const shiftRect = <T extends GridRect>(rect: T): T => ({
+    ...rect,
+    top: rect.top + padding.top,
+    left: rect.left + padding.left,
+  })
+  const { scrollExtent, getVisibleRange, getBubble, overlayStrip, reactionsSlot, groups, scene } =
+    result
+
+  return {
+    ...result,
+    getPosition: (index: number) => {
+      const { top, left } = result.getPosition(index)
+      // Hidden items keep the off-screen sentinel
+      return top === -9999 && left === -9999
+        ? { top, left }
+        : { top: top + padding.top, left: left + padding.left }
+    },
+    scrollExtent: scrollExtent && {
+      width: scrollExtent.width + padding.left + padding.right,
+      height: scrollExtent.height + padding.top + padding.bottom,
+    },
+    getVisibleRange:
+      getVisibleRange &&
+      ((viewport) => getVisibleRange({ ...viewport, top: viewport.top - padding.top })),
+    getBubble:
+      getBubble &&
+      ((index: number) => {
+        const bubble = getBubble(index)
+        return (
+          bubble && {
+            ...bubble,
+            centerX: bubble.centerX + padding.left,
+            centerY: bubble.centerY + padding.top,
+          }
+        )
+      }),
+    overlayStrip: overlayStrip && { ...overlayStrip, bounds: shiftRect(overlayStrip.bounds) },
+    reactionsSlot: reactionsSlot && shiftRect(reactionsSlot),
+    groups: groups?.map((group) => ({
+      ...group,
+      bounds: shiftRect(group.bounds),
+      headerBounds: group.headerBounds && shiftRect(group.headerBounds),
+    })),
+    scene: scene && { ...scene, bounds: shiftRect(scene.bounds) },
+  }
+}
+
+/**
+ * Resolve options.itemOrder into a full display order: valid, unique indices first,
+ * then the missing items in index order. Returns undefined when nothing is reordered.
+ */
+function resolveItemOrder(options: MeetGridOptions): number[] | undefined {
+  const { itemOrder, count } = options
+  if (!itemOrder) return undefined
+
+  const seen = new Set<number>()
+  const order = itemOrder.filter((index) => {
+    if (!Number.isInteger(index) || index < 0 || index >= count || seen.has(index)) return false
+    seen.add(index)
+    return true
+  })
+  for (let i = 0; i < count; i++) {
+    if (!seen.has(i)) order.push(i)
+  }
+
+  return order.some((index, slot) => index !== slot) ? order : undefined
+}
+
+/**
+ * Create a stage layout (webinar panelists on stage, audience not laid out).
+ * Stage members keep their original indices and are laid out with gallery rules.
+ */
+function createStageGrid(options: MeetGridOptions): MeetGridResult {
+  const { dimensions, gap, count, stageIndices = [], showReactionsSlot = false } = options
+
+  // Panelists keep the order the caller gave them
+  const stage = [...new Set(stageIndices)].filter((i) => i >= 0 && i < count)
+  const audienceCount = count - stage.length
+
+  // Compact reactions tile: a short band centered at the bottom
+  let reactionsSlot: GridRect | undefined
+  let stageDimensions = dimensions
+  if (showReactionsSlot) {
+    const { width: W, height: H } = dimensions
+    const slotH = Math.min(Math.max(H * 0.12, 48), 96)
+    const slotW = Math.min(W - gap * 2, 320)
+    reactionsSlot = {
+      top: H - gap - slotH,
+      left: (W - slotW) / 2,
+      width: slotW,
+      height: slotH,
+    }
+    // The stage's own outer padding plus rowGap separates its tiles from the slot
+    const { rowGap } = resolveSpacing(options)
+    stageDimensions = { width: W, height: Math.max(0, H - slotH - rowGap) }
+  }
+
+  const stageResult =
+    stage.length > 0
+      ? createMeetGrid({
+          ...createSubsetOptions(options, stage),
+          dimensions: stageDimensions,
+          layoutMode: 'gallery',
+          // Two panelists share the stage side by side rather than as a PiP
+          twoPersonLayout: 'gallery',
+        })
+      : createEmptyMeetGridResult('stage')
+
+  return {
+    ...remapMeetGridResult(stageResult, stage),
+    layoutMode: 'stage',
+    audienceCount,
+    reactionsSlot,
+  }
+}
+
+/**
+ * Create a grouped layout (breakout rooms, teams).
+ * Groups are distributed over rows of regions, each region sized by its item count,
+ * and every region runs the uniform gallery below an optional header band.
+ * The row count that gives the most total tile area wins.
+ * rows/cols describe the regions (rows of regions, most regions in a row); each region's
+ * tiles have their own shape, and width/height are those of the first laid-out tile.
+ */
+function createGroupedGrid(options: MeetGridOptions): MeetGridResult {
+  const { dimensions, gap, aspectRatio, count, groups = [], groupHeaderHeight = 0 } = options
+  const { width: W, height: H } = dimensions
+  const availW = W - gap * 2
+  const availH = H - gap * 2
+  const spacing = resolveSpacing(options)
+  const { rowGap, columnGap } = spacing
+
+  // Resolve members (an item belongs to the first group listing it)
+  const assigned = new Set<number>()
+  const members = groups.map((group) =>
+    group.indices.filter((index) => {
+      if (index < 0 || index >= count || assigned.has(index)) return false
+      assigned.add(index)
+      return true
+    })
+  )
+
+  if (groups.length === 0) {
+    return { ...createEmptyMeetGridResult('grouped'), groups: [] }
+  }
+
+  // Split groups into rows of regions and compute each region's bounds
+  function planRegions(numRows: number): GridRect[] {
+    const regions: GridRect[] = []
+    const base = Math.floor(groups.length / numRows)
+    const extra = groups.length % numRows
+    const rowH = (availH - (numRows - 1) * rowGap) / numRows
+    let groupIdx = 0
+
+    for (let r = 0; r < numRows; r++) {
+      const rowSize = base + (r < extra ? 1 : 0)
+      const rowGroups = members.slice(groupIdx, groupIdx + rowSize)
+      // Empty groups still get a region for their header
+      const rowWeights = rowGroups.map((m) => Math.max(1, m.length))
+      const totalWeight = rowWeights.reduce((s, w) => s + w, 0)
+      const netW = availW - (rowSize - 1) * columnGap
+
+      let left = gap
+      for (const weight of rowWeights) {
+        const width = (weight / totalWeight) * netW
+        regions.push({ top: gap + r * (rowH + rowGap), left, width, height: rowH })
+        left += width + columnGap
+      }
+      groupIdx += rowSize
+    }
+
+    return regions
+  }
+
+  const tileArea = (rect: GridRect) => rect.width * rect.height
+  const itemsRect = (region: GridRect): GridRect => {
+    const headerH = groupHeaderHeight > 0 ? groupHeaderHeight + rowGap : 0
+    return { ...region, top: region.top + headerH, height: Math.max(0, region.height - headerH) }
+  }
+
+  let bestRegions = planRegions(1)
+  let bestScore = -1
+
+  for (let numRows = 1; numRows <= groups.length; numRows++) {
+    const regions = planRegions(numRows)
+    let score = 0
+    regions.forEach((region, i) => {
+      const n = members[i].length
+      if (n === 0) return
+      const rect = itemsRect(region)
+      const grid = createGridInRect(rect, n, aspectRatio, spacing)
+      score += tileArea({ top: 0, left: 0, width: grid.width, height: grid.height }) * n
+    })
+    if (score > bestScore) {
+      bestScore = score
+      bestRegions = regions
+    }
+  }
+
+  const rects = new Map<number, GridRect>()
+  const groupBounds: GroupBounds[] = groups.map((group, i) => {
+    const region = bestRegions[i]
+    const rect = itemsRect(region)
+    const n = members[i].length
+
+    if (n > 0) {
+      const grid = createGridInRect(rect, n, aspectRatio, spacing)
+      members[i].forEach((index, j) => {
+        rects.set(index, { ...grid.getPosition(j), width: grid.width, height: grid.height })
+      })
+    }
+
+    return {
+      id: group.id,
+      label: group.label,
+      bounds: region,
+      headerBounds:
+        groupHeaderHeight > 0
+          ? { top: region.top, left: region.left, width: region.width, height: groupHeaderHeight }
+          : undefined,
+    }
+  })
+
+  const getItemDimensions = (index: number): GridDimensions => {
+    const rect = rects.get(index)
+    return rect ? { width: rect.width, height: rect.height } : { width: 0, height: 0 }
+  }
+  const firstRect = rects.values().next().value as GridRect | undefined
+
+  // Regions per row of regions
+  const regionRows = new Map<number, number>()
+  for (const region of bestRegions) {
+    regionRows.set(region.top, (regionRows.get(region.top) ?? 0) + 1)
+  }
+
+  return {
+    width: firstRect?.width ?? 0,
+    height: firstRect?.height ?? 0,
+    rows: regionRows.size,
+    cols: Math.max(...regionRows.values()),
+    layoutMode: 'grouped',
+    getPosition: (index: number) => {
+      const rect = rects.get(index)
+      return rect ? { top: rect.top, left: rect.left } : { top: -9999, left: -9999 }
+    },
+    getItemDimensions,
+    isMainItem: () => false,
+    pagination: createDefaultPagination(rects.size),
+    isItemVisible: (index: number) => rects.has(index),
+    hiddenCount: 0,
+    getLastVisibleOthersIndex: () => -1,
+    getItemContentDimensions: createGetItemContentDimensions(
+      getItemDimensions,
+      options.itemAspectRatios,
+      aspectRatio
+    ),
+    groups: groupBounds,
+  }
+}
+
+/**
+ * Create a template layout (grid-template-areas style).
+ * Each area is resolved to a rectangle respecting gap. A single item fills its area,
+ * a few items split the area's cells, and more items than cells fall back to a gallery sub-layout.
+ * Items assigned to no area are hidden.
+ */
+function createTemplateGrid(options: MeetGridOptions): MeetGridResult {
+  const {
+    dimensions,
+    gap,
+    aspectRatio,
+    count,
+    template,
+    templateAreas = {},
+    itemRoles = [],
+  } = options
+
+  if (!template) {
+    return { ...createMeetGrid({ ...options, layoutMode: 'gallery' }), layoutMode: 'template' }
+  }
+
+  const { rows, cols, rowSizes, colSizes, areas } = parseLayoutTemplate(template)
+  const { width: W, height: H } = dimensions
+  const spacing = resolveSpacing(options)
+  const { rowGap, columnGap } = spacing
+
+  // Track sizes (fr units) and their start offsets
+  const trackStarts = (sizes: number[], total: number, trackGap: number) => {
+    const unit = (total - (sizes.length - 1) * trackGap) / sizes.reduce((s, v) => s + v, 0)
+    const starts: number[] = []
+    const lengths = sizes.map((size) => size * unit)
+    let offset = gap
+    for (const length of lengths) {
+      starts.push(offset)
+      offset += length + trackGap
+    }
+    return { starts, lengths }
+  }
+  const rowTracks = trackStarts(rowSizes, H - gap * 2, rowGap)
+  const colTracks = trackStarts(colSizes, W - gap * 2, columnGap)
+
+  const areaRect = (area: TemplateArea): GridRect => {
+    const lastRow = area.row + area.rowSpan - 1
+    const lastCol = area.col + area.colSpan - 1
+    return {
+      top: rowTracks.starts[area.row],
+      left: colTracks.starts[area.col],
+      width: colTracks.starts[lastCol] + colTracks.lengths[lastCol] - colTracks.starts[area.col],
+      height: rowTracks.starts[lastRow] + rowTracks.lengths[lastRow] - rowTracks.starts[area.row],
+    }
+  }
+
+  // Assign items: explicit templateAreas first, then itemRoles
+  const assigned = new Set<number>()
+  const areaItems = new Map<string, number[]>(areas.map((area) => [area.name, []]))
+  for (const [name, indices] of Object.entries(templateAreas)) {
+    const list = areaItems.get(name)
+    if (!list) continue
+    for (const index of indices) {
+      if (index >= 0 && index < count && !assigned.has(index)) {
+        list.push(index)
+        assigned.add(index)
+      }
+    }
+  }
+  for (let index = 0; index < count; index++) {
+    const role = itemRoles[index]
+    const list = role !== undefined ? areaItems.get(role) : undefined
+    if (list && !assigned.has(index)) {
+      list.push(index)
+      assigned.add(index)
+    }
+  }
+
+  const rects = new Map<number, GridRect>()
+  for (const area of areas) {
+    const items = areaItems.get(area.name)!
+    if (items.length === 0) continue
+    const rect = areaRect(area)
+    const cellCount = area.rowSpan * area.colSpan
+
+    if (items.length === 1) {
+      rects.set(items[0], rect)
+    } else if (items.length <= cellCount) {
+      // Split the area into rows of equal slices, following its cell rows
+      const numRows = Math.min(area.rowSpan, items.length)
+      const base = Math.floor(items.length / numRows)
+      const extra = items.length % numRows
+      const sliceH = (rect.height - (numRows - 1) * rowGap) / numRows
+      let itemIdx = 0
+      for (let r = 0; r < numRows; r++) {
+        const rowSize = base + (r < extra ? 1 : 0)
+        const sliceW = (rect.width - (rowSize - 1) * columnGap) / rowSize
+        for (let c = 0; c < rowSize; c++) {
+          rects.set(items[itemIdx++], {
+            top: rect.top + r * (sliceH + rowGap),
+            left: rect.left + c * (sliceW + columnGap),
+            width: sliceW,
+            height: sliceH,
+          })
+        }
+      }
+    } else {
+      // More items than cells: gallery sub-layout inside the area
+      const grid = createGridInRect(rect, items.length, aspectRatio, spacing)
+      items.forEach((index, i) => {
+        rects.set(index, { ...grid.getPosition(i), width: grid.width, height: grid.height })
+      })
+    }
+  }
+
+  // The largest area holds the main item(s)
+  const mainArea = areas.reduce<TemplateArea | undefined>(
+    (best, area) =>
+      areaItems.get(area.name)!.length > 0 &&
+      (!best || area.rowSpan * area.colSpan > best.rowSpan * best.colSpan)
+        ? area
+        : best,
+    undefined
+  )
+  const mainItems = new Set(mainArea ? areaItems.get(mainArea.name) : [])
+  const mainRect = mainArea ? rects.get(areaItems.get(mainArea.name)![0]) : undefined
+
+  const getItemDimensions = (index: number): GridDimensions => {
+    const rect = rects.get(index)
+    return rect ? { width: rect.width, height: rect.height } : { width: 0, height: 0 }
+  }
+
+  return {
+    width: mainRect?.width ?? 0,
+    height: mainRect?.height ?? 0,
+    rows,
+    cols,
+    layoutMode: 'template',
+    getPosition: (index: number) => {
+      const rect = rects.get(index)
+      return rect ? { top: rect.top, left: rect.left } : { top: -9999, left: -9999 }
+    },
+    getItemDimensions,
+    isMainItem: (index: number) => mainItems.has(index),
+    pagination: createDefaultPagination(rects.size),
+    isItemVisible: (index: number) => rects.has(index),
+    hiddenCount: 0,
+    getLastVisibleOthersIndex: () => -1,
+    getItemContentDimensions: createGetItemContentDimensions(
+      getItemDimensions,
+      options.itemAspectRatios,
+      aspectRatio
+    ),
+  }
+}
+
+/**
+ * Create a freeform layout (user-arranged tiles).
+ * Positions come from the normalized layout state scaled to the container;
+ * items without a stored rect fall back to their gallery position.
+ */
+function createFreeformGrid(options: MeetGridOptions): MeetGridResult {
+  const { dimensions, aspectRatio, count, freeformLayout } = options
+  const { width: W, height: H } = dimensions
+
+  // Items without a stored rect take their gallery cell (video area grown by the chrome)
+  const chrome = resolveTileChrome(options.tileChrome)
+  const fallback = createGrid(createVideoAreaOptions(options, chrome))
+  const rects: GridRect[] = []
+  const zIndices: number[] = []
+
+  for (let i = 0; i < count; i++) {
+    const stored = freeformLayout?.items[i]
+    if (stored) {
+      const width = Math.min(stored.width * W, W)
+      const height = Math.min(stored.height * H, H)
+      rects.push({
+        top: Math.min(Math.max(0, stored.y * H), H - height),
+        left: Math.min(Math.max(0, stored.x * W), W - width),
+        width,
+        height,
+      })
+      zIndices.push(stored.zIndex)
+    } else {
+      const { top, left } = fallback.getPosition(i)
+      const { width, height } = fallback.getItemDimensions(i)
+      rects.push({
+        top: top - chrome.top,
+        left: left - chrome.left,
+        width: width + chrome.left + chrome.right,
+        height: height + chrome.top + chrome.bottom,
+      })
+      zIndices.push(0)
+    }
+  }
+
+  const getItemDimensions = (index: number): GridDimensions => {
+    const rect = rects[index]
+    return rect ? { width: rect.width, height: rect.height } : { width: 0, height: 0 }
+  }
+
+  return {
+    width: fallback.width + chrome.left + chrome.right,
+    height: fallback.height + chrome.top + chrome.bottom,
+    rows: fallback.rows,
+    cols: fallback.cols,
+    layoutMode: 'freeform',
+    getPosition: (index: number) => {
+      const rect = rects[index]
+      return rect ? { top: rect.top, left: rect.left } : { top: -9999, left: -9999 }
+    },
+    getItemDimensions,
+    isMainItem: () => false,
+    pagination: createDefaultPagination(count),
+    isItemVisible: (index: number) => index >= 0 && index < count,
+    hiddenCount: 0,
+    getLastVisibleOthersIndex: () => -1,
+    getItemContentDimensions: createGetItemContentDimensions(
+      getItemDimensions,
+      options.itemAspectRatios,
+      aspectRatio,
+      options.tileChrome
+    ),
+    getItemZIndex: (index: number) => zIndices[index] ?? 0,
+  }
+}
+
+/**
+ * Create a stack layout (card deck).
+ * The front card fills the container except for a band at the bottom where the next
+ * cards peek out, each one step lower and smaller. The previous card waits just off
+ * the left edge so swiping back animates it in.
+ */
+function createStackGrid(options: MeetGridOptions): MeetGridResult {
+  const { dimensions, gap, aspectRatio, count, stackPeekCount = 2 } = options
+  const { width: W, height: H } = dimensions
+  const front = Math.min(Math.max(0, options.stackIndex ?? 0), count - 1)
+
+  const peekStep = 12
+  const scaleStep = 0.05
+  const availW = W - gap * 2
+  const frontH = Math.max(0, H - gap * 2 - stackPeekCount * peekStep)
+
+  const getDepth = (index: number) => index - front
+  const isInStack = (index: number) => {
+    const depth = getDepth(index)
+    return index >= 0 && index < count && depth >= -1 && depth <= stackPeekCount
+  }
+
+  const getItemDimensions = (index: number): GridDimensions => {
+    if (!isInStack(index)) return { width: 0, height: 0 }
+    const scale = 1 - Math.max(0, getDepth(index)) * scaleStep
+    return { width: availW * scale, height: frontH * scale }
+  }
+
+  const getPosition = (index: number): Position => {
+    if (!isInStack(index)) return { top: -9999, left: -9999 }
+    const depth = getDepth(index)
+    if (depth < 0) return { top: gap, left: -W }
+    const { width, height } = getItemDimensions(index)
+    return { top: gap + frontH + depth * peekStep - height, left: gap + (availW - width) / 2 }
+  }
+
+  return {
+    width: availW,
+    height: frontH,
+    rows: 1,
+    cols: 1,
+    layoutMode: 'stack',
+    getPosition,
+    getItemDimensions,
+    isMainItem: (index: number) => index === front,
+    pagination: createDefaultPagination(count),
+    isItemVisible: isInStack,
+    hiddenCount: 0,
+    getLastVisibleOthersIndex: () => -1,
+    getItemContentDimensions: createGetItemContentDimensions(
+      getItemDimensions,
+      options.itemAspectRatios,
+      aspectRatio
+    ),
+    // Front card on top, deeper cards below; the swiped-away card stays above all
+    getItemZIndex: (index: number) => count - getDepth(index),
+    stackIndex: front,
+  }
+}
+
+/**
+ * Create a scene layout (Together-mode style).
+ * The scene is scaled to the container (contain or cover, centered) and item i sits in seat i.
+ * Falls back to the gallery when there are more items than seats.
+ */
+function createSceneGrid(options: MeetGridOptions): MeetGridResult {
+  const { dimensions, aspectRatio, count, scene, sceneFit = 'contain' } = options
+  const { width: W, height: H } = dimensions
+
+  // No usable scene or too few seats — lay out a regular gallery
+  if (!scene || count > scene.seats.length || scene.width <= 0 || scene.height <= 0) {
+    return { ...createMeetGrid({ ...options, layoutMode: 'gallery' }), layoutMode: 'scene' }
+  }
+
+  const scaleX = W / scene.width
+  const scaleY = H / scene.height
+  const scale = sceneFit === 'cover' ? Math.max(scaleX, scaleY) : Math.min(scaleX, scaleY)
+  const bounds: GridRect = {
+    width: scene.width * scale,
+    height: scene.height * scale,
+    top: (H - scene.height * scale) / 2,
+    left: (W - scene.width * scale) / 2,
+  }
+
+  const rects: GridRect[] = scene.seats.slice(0, count).map((seat) => ({
+    top: bounds.top + seat.y * bounds.height,
+    left: bounds.left + seat.x * bounds.width,
+    width: seat.width * bounds.width,
+    height: seat.height * bounds.height,
+  }))
+
+  const getItemDimensions = (index: number): GridDimensions => {
+    const rect = rects[index]
+    return rect ? { width: rect.width, height: rect.height } : { width: 0, height: 0 }
+  }
+
+  return {
+    width: rects[0]?.width ?? 0,
+    height: rects[0]?.height ?? 0,
+    rows: 1,
+    cols: count,
+    layoutMode: 'scene',
+    getPosition: (index: number) => {
+      const rect = rects[index]
+      return rect ? { top: rect.top, left: rect.left } : { top: -9999, left: -9999 }
+    },
+    getItemDimensions,
+    isMainItem: () => false,
+    pagination: createDefaultPagination(count),
+    isItemVisible: (index: number) => index >= 0 && index < count,
+    hiddenCount: 0,
+    getLastVisibleOthersIndex: () => -1,
+    getItemContentDimensions: createGetItemContentDimensions(
+      getItemDimensions,
+      options.itemAspectRatios,
+      aspectRatio
+    ),
+    getItemZIndex: (index: number) => scene.seats[index]?.zIndex ?? index,
+    scene: { bounds, background: scene.background },
+  }
+}
+
+/**
+ * Create default pagination info (no pagination)
+ */
+function createDefaultPagination(count: number): PaginationInfo {
+  return {
+    enabled: false,
+    currentPage: 0,
+    totalPages: 1,
+    itemsOnPage: count,
+    startIndex: 0,
+    endIndex: count,
+  }
+}
+
+/**
+ * Create pagination info based on options
+ */
+function createPaginationInfo(
+  count: number,
+  maxItemsPerPage?: number,
+  currentPage?: number
+): PaginationInfo {
+  if (!maxItemsPerPage || maxItemsPerPage <= 0 || maxItemsPerPage >= count) {
+    return createDefaultPagination(count)
+  }
+
+  const totalPages = Math.ceil(count / maxItemsPerPage)
+  const page = Math.min(Math.max(0, currentPage ?? 0), totalPages - 1)
+  const startIndex = page * maxItemsPerPage
+  const endIndex = Math.min(startIndex + maxItemsPerPage, count)
+
+  return {
+    enabled: true,
+    currentPage: page,
+    totalPages,
+    itemsOnPage: endIndex - startIndex,
+    startIndex,
+    endIndex,
+  }
+}
+
+/**
+ * Create pagination info with sticky items.
+ * Sticky items lead every page; the other items are paginated over the remaining
+ * slots. Pages never exceed maxItemsPerPage: one slot is always left for the others,
+ * so sticky items past the first maxItemsPerPage - 1 are paginated like the rest.
+ */
+function createStickyPagination(
+  count: number,
+  maxItemsPerPage: number,
+  currentPage: number | undefined,
+  stickyIndices: number[] = []
+): { pagination: PaginationInfo; pageIndices: number[] } {
+  const sticky = [...new Set(stickyIndices)]
+    .filter((index) => index >= 0 && index < count)
+    .slice(0, Math.max(0, maxItemsPerPage - 1))
+  const stickySet = new Set(sticky)
+  const others: number[] = []
+  for (let i = 0; i < count; i++) {
+    if (!stickySet.has(i)) others.push(i)
+  }
+
+  if (sticky.length === 0) {
+    const pagination = createPaginationInfo(count, maxItemsPerPage, currentPage)
+    const pageIndices = others.slice(pagination.startIndex, pagination.endIndex)
+    return { pagination, pageIndices }
+  }
+
+  const perPage = maxItemsPerPage - sticky.length
+  const othersPagination = createPaginationInfo(others.length, perPage, currentPage)
+  const pageIndices = [
+    ...sticky,
+    ...others.slice(othersPagination.startIndex, othersPagination.endIndex),
+  ]
+
+  return {
+    pagination: {
+      ...othersPagination,
+      itemsOnPage: pageIndices.length,
+      pageIndices,
+    },
+    pageIndices,
+  }
+}
+
+/**
+ * Items shown by a gallery in slot order: the current page (led by the sticky items) with
+ * maxItemsPerPage, otherwise the first maxVisible items with the rest counted as hidden.
+ */
+function resolveGalleryPage(options: MeetGridOptions): {
+  pagination: PaginationInfo
+  visibleIndices: number[]
+  hiddenCount: number
+} {
+  const { count, maxItemsPerPage, currentPage, maxVisible = 0, stickyIndices } = options
+
+  if (maxItemsPerPage && maxItemsPerPage > 0) {
+    const page = createStickyPagination(count, maxItemsPerPage, currentPage, stickyIndices)
+    return { pagination: page.pagination, visibleIndices: page.pageIndices, hiddenCount: 0 }
+  }
+
+  // +1 because the last slot shows the indicator instead of a participant
+  const capped = maxVisible > 0 && count > maxVisible
+  const endIndex = capped ? maxVisible : count
+  return {
+    pagination: {
+      enabled: false,
+      currentPage: 0,
+      totalPages: 1,
+      itemsOnPage: endIndex,
+      startIndex: 0,
+      endIndex,
+    },
+    visibleIndices: Array.from({ length: endIndex }, (_, i) => i),
+    hiddenCount: capped ? count - maxVisible + 1 : 0,
+  }
+}
+
+/**
+ * Create an empty meet grid result
+ */
+function createEmptyMeetGridResult(layoutMode: LayoutMode): MeetGridResult {
+  const getItemDimensions = () => ({ width: 0, height: 0 })
+  return {
+    width: 0,
+    height: 0,
+    rows: 0,
+    cols: 0,
+    layoutMode,
+    getPosition: () => ({ top: 0, left: 0 }),
+    getItemDimensions,
+    isMainItem: () => false,
+    pagination: createDefaultPagination(0),
+    isItemVisible: () => false,
+    hiddenCount: 0,
+    getLastVisibleOthersIndex: () => -1,
+    getItemContentDimensions: () => ({ width: 0, height: 0, offsetTop: 0, offsetLeft: 0 }),
+  }
+}
+
+/**
+/**
+ * Create a flexible gallery grid using a justified layout algorithm.
+ * Uses binary search to find the optimal row height that fills the container.
+ * Items are packed greedily into rows, then each row is scaled to fill width.
+ */
+function createFlexibleGalleryGrid(options: MeetGridOptions): MeetGridResult {
+  const {
+    dimensions,
+    gap,
+    aspectRatio,
+    count,
+    itemAspectRatios = [],
+    maxItemsPerPage,
+    currentPage,
+    maxVisible = 0,
+    stickyIndices,
+    maxTileSize,
+  } = options
+
+  if (count === 0) {
+    return createEmptyMeetGridResult('gallery')
+  }
+
+  const { width: W, height: H } = dimensions
+  const availW = W - gap * 2
+  const availH = H - gap * 2
+  const { rowGap, columnGap } = resolveSpacing(options)
+
+  // --- Pagination / Visual capping ---
+  let visibleCount = count
+  let hiddenCount = 0
+  let startIndex = 0
+  let endIndex = count
+  let pageIndices: number[] | undefined
+  let pagination: PaginationInfo | undefined
+
+  if (maxItemsPerPage && maxItemsPerPage > 0) {
+    const page = createStickyPagination(count, maxItemsPerPage, currentPage, stickyIndices)
+    pagination = page.pagination
+    pageIndices = page.pageIndices
+    visibleCount = pagination.itemsOnPage
+  } else if (maxVisible > 0 && count > maxVisible) {
+    visibleCount = maxVisible
+    hiddenCount = count - maxVisible + 1
+    startIndex = 0
+    endIndex = maxVisible
+  }
+
+  pagination ??= {
+    enabled: false,
+    currentPage: 0,
+    totalPages: 1,
+    itemsOnPage: visibleCount,
+    startIndex,
+    endIndex,
+  }
+
+  // Only visible items are laid out, in slot order
+  const visibleIndices: number[] = pageIndices ?? []
+  if (!pageIndices) {
+    for (let i = startIndex; i < endIndex; i++) {
+      visibleIndices.push(i)
+    }
+  }
+  const slotOf = new Map(visibleIndices.map((index, slot) => [index, slot]))
+
+  // For each visible item, compute width/height ratio
+  const itemWHRatios: number[] = []
+  for (const idx of visibleIndices) {
+    const ratioStr = itemAspectRatios[idx] ?? aspectRatio
+    const hw = getAspectRatio(ratioStr)
+    itemWHRatios.push(1 / hw) // width / height
+  }
+
+  const effectiveCount = visibleIndices.length
 
   // --- Find optimal row distribution that minimizes wasted space ---
   // Try different row counts and pick the one where the natural total height
@@ -1188,12 +3987,12 @@ function createFlexibleGalleryGrid(options: MeetGridOptions): MeetGridResult {
       for (let i = 0; i < rowSize; i++) {
         totalUnitW += itemWHRatios[itemIdx + i]
       }
-      const netW = availW - (rowSize - 1) * gap
+      const netW = availW - (rowSize - 1) * columnGap
       totalH += netW / totalUnitW
       itemIdx += rowSize
     }
 
-    return totalH + (numRows - 1) * gap
+    return totalH + (numRows - 1) * rowGap
   }
 
   // Build distribution array for the chosen row count
@@ -1245,16 +4044,32 @@ function createFlexibleGalleryGrid(options: MeetGridOptions): MeetGridResult {
   const rowHeights: number[] = []
   for (const row of bestRows) {
     const totalUnitW = row.reduce((s, relIdx) => s + itemWHRatios[relIdx], 0)
-    const netW = availW - (row.length - 1) * gap
+    const netW = availW - (row.length - 1) * columnGap
     rowHeights.push(netW / totalUnitW)
   }
 
-  const totalRowH = rowHeights.reduce((s, h) => s + h, 0) + (rowCount - 1) * gap
+  const totalRowH = rowHeights.reduce((s, h) => s + h, 0) + (rowCount - 1) * rowGap
+
+  // Largest scale that keeps every tile within maxTileSize
+  let maxTileScale = Infinity
+  if (maxTileSize) {
+    bestRows.forEach((row, ri) => {
+      for (const relIdx of row) {
+        const naturalW = itemWHRatios[relIdx] * rowHeights[ri]
+        maxTileScale = Math.min(
+          maxTileScale,
+          maxTileSize.width / naturalW,
+          maxTileSize.height / rowHeights[ri]
+        )
+      }
+    })
+  }
+
   // Uniform scaling preserves aspect ratios. Cap at 1.0 so rows don't overflow width.
-  const globalScale = Math.min(1.0, availH / totalRowH)
+  const globalScale = Math.min(1.0, availH / totalRowH, maxTileScale)
 
   // Center vertically when there's remaining space
-  const scaledTotalH = rowHeights.reduce((s, h) => s + h * globalScale, 0) + (rowCount - 1) * gap
+  const scaledTotalH = rowHeights.reduce((s, h) => s + h * globalScale, 0) + (rowCount - 1) * rowGap
   const verticalOffset = (availH - scaledTotalH) / 2
 
   let currentTop = gap + verticalOffset
@@ -1263,65 +4078,386 @@ function createFlexibleGalleryGrid(options: MeetGridOptions): MeetGridResult {
     const finalRowH = rowHeights[ri] * globalScale
 
     const totalUnitW = row.reduce((s, relIdx) => s + itemWHRatios[relIdx], 0)
-    const netW = availW - (row.length - 1) * gap
+    const netW = availW - (row.length - 1) * columnGap
     // Scale widths uniformly with heights to maintain correct aspect ratios
     const itemWidths = row.map((relIdx) => (itemWHRatios[relIdx] / totalUnitW) * netW * globalScale)
 
-    // Center row horizontally
-    const scaledRowW = itemWidths.reduce((s, w) => s + w, 0) + (row.length - 1) * gap
-    const horizontalOffset = (availW - scaledRowW) / 2
+    // Center row horizontally
+    const scaledRowW = itemWidths.reduce((s, w) => s + w, 0) + (row.length - 1) * columnGap
+    const horizontalOffset = (availW - scaledRowW) / 2
+
+    let currentLeft = gap + horizontalOffset
+    for (let ci = 0; ci < row.length; ci++) {
+      posMap.set(row[ci], {
+        position: { top: currentTop, left: currentLeft },
+        dimensions: { width: itemWidths[ci], height: finalRowH },
+      })
+      currentLeft += itemWidths[ci] + columnGap
+    }
+    currentTop += finalRowH + rowGap
+  }
+
+  // Map original (absolute) index -> position via its slot on the page
+  const getPosition = (index: number): Position => {
+    const slot = slotOf.get(index)
+    if (slot === undefined) {
+      return { top: -9999, left: -9999 }
+    }
+    return posMap.get(slot)?.position ?? { top: -9999, left: -9999 }
+  }
+
+  const getItemDimensions = (index: number): GridDimensions => {
+    const slot = slotOf.get(index)
+    if (slot === undefined) {
+      return { width: 0, height: 0 }
+    }
+    return posMap.get(slot)?.dimensions ?? { width: 0, height: 0 }
+  }
+
+  const lastVisibleIndex = endIndex - 1
+
+  return {
+    width: availW,
+    height: availH,
+    rows: rowCount,
+    cols: rowCount > 0 ? Math.max(...bestRows.map((r) => r.length)) : 0,
+    layoutMode: 'gallery',
+    getPosition,
+    getItemDimensions,
+    isMainItem: () => false,
+    pagination,
+    isItemVisible: (index: number) => slotOf.has(index),
+    hiddenCount,
+    getLastVisibleOthersIndex: () => (hiddenCount > 0 ? lastVisibleIndex : -1),
+    getItemContentDimensions: createGetItemContentDimensions(
+      getItemDimensions,
+      itemAspectRatios,
+      aspectRatio
+    ),
+  }
+}
+
+/**
+ * Create a weighted mosaic gallery.
+ * Each item spans a weight×weight block of uniform cells. Items are packed in order
+ * into the first free block (dense flow), and the column count that yields the
+ * largest cell is chosen.
+ */
+function createWeightedGalleryGrid(options: MeetGridOptions): MeetGridResult {
+  const { dimensions, gap, aspectRatio, count, weights = [], maxTileSize, lastRowAlign } = options
+
+  if (count === 0) {
+    return createEmptyMeetGridResult('gallery')
+  }
+
+  const { width: W, height: H } = dimensions
+  const availW = W - gap * 2
+  const availH = H - gap * 2
+  const { rowGap, columnGap } = resolveSpacing(options)
+  const ratio = getAspectRatio(aspectRatio)
+
+  // --- Pagination / Visual capping (same rules as the uniform gallery) ---
+  const { pagination, visibleIndices, hiddenCount } = resolveGalleryPage(options)
+  const slotOf = new Map(visibleIndices.map((index, slot) => [index, slot]))
+
+  const spans = visibleIndices.map((index) => {
+    const weight = weights[index]
+    return weight && weight > 1 ? Math.round(weight) : 1
+  })
+
+  // Pack items into `cols` columns, returns cell placement per slot
+  function pack(cols: number): {
+    cells: { row: number; col: number; span: number }[]
+    rows: number
+  } {
+    const occupied: boolean[][] = []
+    const isFree = (row: number, col: number, span: number) => {
+      for (let r = row; r < row + span; r++) {
+        for (let c = col; c < col + span; c++) {
+          if (occupied[r]?.[c]) return false
+        }
+      }
+      return true
+    }
+
+    const cells: { row: number; col: number; span: number }[] = []
+    let rows = 0
+    // Cells taken per row; rows above firstOpenRow are full
+    const filled: number[] = []
+    let firstOpenRow = 0
+
+    for (const rawSpan of spans) {
+      const span = Math.min(rawSpan, cols)
+      let placed = false
+      for (let row = firstOpenRow; !placed; row++) {
+        for (let col = 0; col + span <= cols; col++) {
+          if (isFree(row, col, span)) {
+            for (let r = row; r < row + span; r++) {
+              occupied[r] = occupied[r] ?? []
+              for (let c = col; c < col + span; c++) occupied[r][c] = true
+              filled[r] = (filled[r] ?? 0) + span
+            }
+            while (filled[firstOpenRow] === cols) firstOpenRow++
+            cells.push({ row, col, span })
+            rows = Math.max(rows, row + span)
+            placed = true
+            break
+          }
+        }
+      }
+    }
+
+    return { cells, rows }
+  }
+
+  // Try column counts up to twice that of a gap-less grid of the same cell area filling
+  // the container (more columns only shrink the cells), keep the one with the largest cell
+  const cellArea = spans.reduce((s, span) => s + span * span, 0)
+  const idealCols = Math.sqrt((cellArea * availW) / (availH * ratio))
+  const maxCols = Math.min(
+    spans.reduce((s, span) => s + span, 0),
+    Math.ceil(idealCols * 2)
+  )
+
+  let best = pack(1)
+  let bestCols = 1
+  let cellW = 0
+
+  for (let cols = 1; cols <= maxCols; cols++) {
+    const packed = pack(cols)
+    const widthByCols = (availW - (cols - 1) * columnGap) / cols
+    const widthByRows = (availH - (packed.rows - 1) * rowGap) / packed.rows / ratio
+    const w = Math.min(widthByCols, widthByRows)
+    if (w > cellW) {
+      cellW = w
+      best = packed
+      bestCols = cols
+    }
+  }
+
+  // Single cells never grow past maxTileSize; the mosaic stays centred
+  if (maxTileSize) {
+    cellW = Math.min(cellW, maxTileSize.width, maxTileSize.height / ratio)
+  }
 
-    let currentLeft = gap + horizontalOffset
-    for (let ci = 0; ci < row.length; ci++) {
-      posMap.set(row[ci], {
-        position: { top: currentTop, left: currentLeft },
-        dimensions: { width: itemWidths[ci], height: finalRowH },
-      })
-      currentLeft += itemWidths[ci] + gap
+  const cellH = cellW * ratio
+  const totalW = bestCols * cellW + (bestCols - 1) * columnGap
+  const totalH = best.rows * cellH + (best.rows - 1) * rowGap
+  const offsetLeft = gap + (availW - totalW) / 2
+  const offsetTop = gap + (availH - totalH) / 2
+
+  // Below the last spanning block only single cells remain, filled row by row like a
+  // uniform grid, so its incomplete last row follows lastRowAlign
+  const tailRow = best.cells.reduce(
+    (row, cell) => (cell.span > 1 ? Math.max(row, cell.row + cell.span) : row),
+    0
+  )
+  const tailStart = best.cells.findIndex((cell) => cell.row >= tailRow)
+  const tailCount = tailStart < 0 ? 0 : best.cells.length - tailStart
+
+  function getTile(slot: number): { top: number; left: number; width: number; height: number } {
+    const cell = best.cells[slot]
+    if (tailStart >= 0 && slot >= tailStart) {
+      const { row, col, rowLength } = getGridCell(
+        slot - tailStart,
+        tailCount,
+        bestCols,
+        lastRowAlign
+      )
+      const top = offsetTop + (tailRow + row) * (cellH + rowGap)
+      if (rowLength < bestCols) {
+        const tile = alignRowTile(
+          col,
+          rowLength,
+          bestCols,
+          cellW,
+          columnGap,
+          offsetLeft,
+          lastRowAlign
+        )
+        return { top, ...tile, height: cellH }
+      }
+      return { top, left: offsetLeft + col * (cellW + columnGap), width: cellW, height: cellH }
+    }
+    return {
+      top: offsetTop + cell.row * (cellH + rowGap),
+      left: offsetLeft + cell.col * (cellW + columnGap),
+      width: cell.span * cellW + (cell.span - 1) * columnGap,
+      height: cell.span * cellH + (cell.span - 1) * rowGap,
     }
-    currentTop += finalRowH + gap
   }
 
-  // Map original (absolute) index -> position via relative index
   const getPosition = (index: number): Position => {
-    const relativeIndex = index - startIndex
-    if (relativeIndex < 0 || relativeIndex >= effectiveCount) {
+    const slot = slotOf.get(index)
+    if (slot === undefined) {
       return { top: -9999, left: -9999 }
     }
-    return posMap.get(relativeIndex)?.position ?? { top: -9999, left: -9999 }
+    const { top, left } = getTile(slot)
+    return { top, left }
   }
 
   const getItemDimensions = (index: number): GridDimensions => {
-    const relativeIndex = index - startIndex
-    if (relativeIndex < 0 || relativeIndex >= effectiveCount) {
+    const slot = slotOf.get(index)
+    if (slot === undefined) {
       return { width: 0, height: 0 }
     }
-    return posMap.get(relativeIndex)?.dimensions ?? { width: 0, height: 0 }
+    const { width, height } = getTile(slot)
+    return { width, height }
   }
 
-  const lastVisibleIndex = endIndex - 1
-
   return {
-    width: availW,
-    height: availH,
-    rows: rowCount,
-    cols: rowCount > 0 ? Math.max(...bestRows.map((r) => r.length)) : 0,
+    width: cellW,
+    height: cellH,
+    rows: best.rows,
+    cols: bestCols,
     layoutMode: 'gallery',
     getPosition,
     getItemDimensions,
-    isMainItem: () => false,
+    // Main items are the ones still spanning a block once clamped to the columns
+    isMainItem: (index: number) => {
+      const slot = slotOf.get(index)
+      return slot !== undefined && best.cells[slot].span > 1
+    },
     pagination,
-    isItemVisible: (index: number) => index >= startIndex && index < endIndex,
+    isItemVisible: (index: number) => slotOf.has(index),
     hiddenCount,
-    getLastVisibleOthersIndex: () => (hiddenCount > 0 ? lastVisibleIndex : -1),
+    getLastVisibleOthersIndex: () =>
+      hiddenCount > 0 ? visibleIndices[visibleIndices.length - 1] : -1,
     getItemContentDimensions: createGetItemContentDimensions(
       getItemDimensions,
-      itemAspectRatios,
+      options.itemAspectRatios,
       aspectRatio
     ),
   }
 }
 
+/**
+ * Whether createMeetGrid uses the 2-person float layout: exactly two items in a gallery
+ * that no earlier gallery variant (pin, weights, scrollable, bubbles) claims, without a
+ * self-view policy or floatIndices, and not opted out with twoPersonLayout 'gallery'.
+ */
+function isTwoPersonFloatLayout(options: MeetGridOptions): boolean {
+  const { layoutMode = 'gallery', count } = options
+  return (
+    count === 2 &&
+    (layoutMode === 'gallery' ||
+      (!BUILT_IN_LAYOUT_MODES.has(layoutMode) && !customLayoutModes.has(layoutMode))) &&
+    !options.selfViewMode &&
+    !options.floatIndices &&
+    options.twoPersonLayout !== 'gallery' &&
+    resolvePinnedIndices(options).length === 0 &&
+    !options.weights?.some((weight) => weight > 1) &&
+    !options.scrollable &&
+    !options.hasVideo?.some((video) => video === false)
+  )
+}
+
+/**
+ * Create the 2-person float layout: the main item fills the container and the other
+ * floats as a PiP. The main tile is edge-to-edge, or inset by the resolved outer padding
+ * (which defaults to gap); tileChrome is reserved inside both tiles.
+ */
+function createTwoPersonGrid(options: MeetGridOptions): MeetGridResult {
+  const { width: W, height: H } = options.dimensions
+  const { twoPersonFloatIndex, twoPersonSwap = false, twoPersonEdgeToEdge = true } = options
+
+  const floatIndex = (twoPersonFloatIndex === 0) !== twoPersonSwap ? 0 : 1
+  const mainIndex = 1 - floatIndex
+
+  // Main person fills ENTIRE container — no gap, edge-to-edge (matches zoom mode)
+  // or is inset by the outer padding when gapped
+  const inset: GridPadding = twoPersonEdgeToEdge
+    ? { top: 0, right: 0, bottom: 0, left: 0 }
+    : resolveSpacing(options).padding
+  const mainWidth = Math.max(0, W - inset.left - inset.right)
+  const mainHeight = Math.max(0, H - inset.top - inset.bottom)
+
+  const float = createFloatItem(options, floatIndex)
+  const { width: floatW, height: floatH } = float
+
+  const getItemDimensions = (index: number) =>
+    index === mainIndex
+      ? { width: mainWidth, height: mainHeight }
+      : { width: floatW, height: floatH }
+
+  return {
+    width: mainWidth,
+    height: mainHeight,
+    rows: 1,
+    cols: 1,
+    layoutMode: 'gallery',
+    getPosition: (index: number) =>
+      index === mainIndex ? { top: inset.top, left: inset.left } : { top: -9999, left: -9999 },
+    getItemDimensions,
+    isMainItem: (index: number) => index === mainIndex,
+    pagination: createDefaultPagination(2),
+    isItemVisible: () => true,
+    hiddenCount: 0,
+    getLastVisibleOthersIndex: () => -1,
+    getItemContentDimensions: createGetItemContentDimensions(
+      getItemDimensions,
+      options.itemAspectRatios,
+      options.aspectRatio,
+      options.tileChrome
+    ),
+    floatIndex,
+    floatDimensions: { width: floatW, height: floatH },
+    floatItems: [float],
+  }
+}
+
+// ============================================
+// Layout Mode Registry
+// ============================================
+
+/**
+ * Factory for a custom layout mode.
+ * Returns the same MeetGridResult contract as the built-in modes, and runs inside the same
+ * wrappers: it sees the items in display order without floating, hidden or docked items,
+ * tileChrome folded into the padding and gaps, and with padding set, the padded area as
+ * its dimensions (gap 0). createMeetGrid maps the result back to item indices and
+ * container coordinates.
+ */
+export type LayoutModeFactory = (options: MeetGridOptions) => MeetGridResult
+
+const BUILT_IN_LAYOUT_MODES = new Set<string>([
+  'gallery',
+  'spotlight',
+  'presentation',
+  'filmstrip',
+  'stage',
+  'grouped',
+  'template',
+  'freeform',
+  'stack',
+  'scene',
+])
+
+const customLayoutModes = new Map<string, LayoutModeFactory>()
+
+/**
+ * Register a custom layout mode for createMeetGrid.
+ * Re-registering a name replaces its factory. Built-in modes cannot be overridden.
+ *
+ * @example
+ * registerLayoutMode('honeycomb', (options) => createHoneycombGrid(options))
+ * createMeetGrid({ ...options, layoutMode: 'honeycomb' })
+ */
+export function registerLayoutMode(name: LayoutMode, factory: LayoutModeFactory): void {
+  if (BUILT_IN_LAYOUT_MODES.has(name)) {
+    throw new Error(`meet-layout-grid: Cannot register built-in layout mode "${name}".`)
+  }
+  customLayoutModes.set(name, factory)
+}
+
+/**
+ * Remove a custom layout mode registered with registerLayoutMode.
+ * @returns Whether a mode was removed
+ */
+export function unregisterLayoutMode(name: LayoutMode): boolean {
+  return customLayoutModes.delete(name)
+}
+
 /**
  * Create a meet-style grid with support for different layout modes.
  * This is the main function for creating video conferencing-style layouts.
@@ -1333,68 +4469,129 @@ export function createMeetGrid(options: MeetGridOptions): MeetGridResult {
     return createEmptyMeetGridResult(layoutMode)
   }
 
+  // Lay out in display order, then map slots back to item indices
+  const itemOrder = resolveItemOrder(options)
+  if (itemOrder) {
+    const result = createMeetGrid(createSubsetOptions(options, itemOrder))
+    // The visible range stays in slots (see MeetGridResult.itemOrder)
+    return {
+      ...remapMeetGridResult(result, itemOrder),
+      getVisibleRange: result.getVisibleRange,
+      itemOrder,
+    }
+  }
+
+  // Floating items (including a floating self-view) apply to every layout mode,
+  // including custom ones
+  const floatIndices = resolveFloatIndices(options)
+  if (floatIndices.length > 0) {
+    return createFloatingGrid(options, floatIndices)
+  }
+
+  // Self-view policy likewise
+  const { selfIndex, selfViewMode = 'tile' } = options
+  if (
+    (selfViewMode === 'hidden' || selfViewMode === 'corner-slot') &&
+    selfIndex !== undefined &&
+    selfIndex >= 0 &&
+    selfIndex < count
+  ) {
+    return createSelfViewGrid(options)
+  }
+
+  // The 2-person float layout fills the container itself: it insets by the resolved padding
+  // and reserves the chrome inside its tiles, so it skips the wrappers below
+  const fillsContainer = layoutMode === 'freeform' || isTwoPersonFloatLayout(options)
+
+  // Tile chrome: lay out the video areas, then grow each cell by the chrome.
+  // Freeform rects are whole cells already (its fallback grid reserves the chrome)
+  if (options.tileChrome && !fillsContainer) {
+    return createChromeGrid(options)
+  }
+
+  // Explicit outer padding: lay out inside the padded area, then shift into place.
+  // Freeform keeps container coordinates for its stored rects (its fallback grid is padded)
+  if (options.padding !== undefined && !fillsContainer) {
+    return createPaddedGrid(options)
+  }
+
+  // Custom modes run inside the wrappers above, like the built-in ones
+  const customFactory = customLayoutModes.get(layoutMode)
+  if (customFactory) {
+    return customFactory(options)
+  }
+
   switch (layoutMode) {
     case 'spotlight':
       return createSpotlightGrid(options)
 
+    case 'presentation':
+      return createPresentationGrid(options)
+
+    case 'filmstrip':
+      return createFilmstripGrid(options)
+
+    case 'stage':
+      return createStageGrid(options)
+
+    case 'grouped':
+      return createGroupedGrid(options)
+
+    case 'template':
+      return createTemplateGrid(options)
+
+    case 'freeform':
+      return createFreeformGrid(options)
+
+    case 'stack':
+      return createStackGrid(options)
+
+    case 'scene':
+      return createSceneGrid(options)
+
     case 'gallery':
     default: {
-      const { maxItemsPerPage, currentPage, pinnedIndex, maxVisible = 0 } = options
+      // Automatic page size: lay out with the derived maxItemsPerPage and report it
+      if (options.autoPageSize) {
+        const pageSize = resolveMinTileCapacity(options)
+        const result = createMeetGrid({
+          ...options,
+          autoPageSize: false,
+          maxItemsPerPage: pageSize,
+        })
+        return { ...result, pagination: { ...result.pagination, pageSize } }
+      }
+
+      const { maxItemsPerPage, currentPage, maxVisible = 0, stickyIndices } = options
 
-      // Gallery with pin uses flexible pin layout
-      if (pinnedIndex !== undefined && pinnedIndex >= 0 && pinnedIndex < count) {
-        return createFlexiblePinGrid(options)
+      // Gallery with pin (one or more pinned items) uses flexible pin layout
+      if (resolvePinnedIndices(options).length > 0) {
+        return fitMinTileSize(options, 'maxVisible', createFlexiblePinGrid)
       }
 
-      // 2-person mode: Zoom-style float layout
-      // Person 0 fills entire container edge-to-edge (like zoom mode with gap=0)
-      // Person 1 becomes draggable floating PiP
-      if (count === 2) {
-        const { width: W, height: H } = options.dimensions
-
-        // Main person fills ENTIRE container — no gap, edge-to-edge (matches zoom mode)
-        const mainWidth = W
-        const mainHeight = H
-
-        // Float PiP dimensions — priority: floatWidth/Height > floatBreakpoints > legacy default
-        let floatW: number
-        let floatH: number
-        if (options.floatBreakpoints) {
-          const resolved = resolveFloatSize(W, options.floatBreakpoints)
-          floatW = options.floatWidth ?? resolved.width
-          floatH = options.floatHeight ?? resolved.height
-        } else {
-          const isMobileSize = W < 500
-          floatW = options.floatWidth ?? (isMobileSize ? 130 : 180)
-          floatH = options.floatHeight ?? (isMobileSize ? 175 : 240)
-        }
+      // Weighted mosaic: emphasised items span larger blocks
+      if (options.weights?.some((weight) => weight > 1)) {
+        const limit = maxItemsPerPage && maxItemsPerPage > 0 ? 'maxItemsPerPage' : 'maxVisible'
+        return fitMinTileSize(options, limit, createWeightedGalleryGrid)
+      }
 
-        const pagination = createDefaultPagination(2)
-        const getItemDimensions = (index: number) =>
-          index === 0 ? { width: mainWidth, height: mainHeight } : { width: floatW, height: floatH }
-
-        return {
-          width: mainWidth,
-          height: mainHeight,
-          rows: 1,
-          cols: 1,
-          layoutMode: 'gallery' as LayoutMode,
-          getPosition: (index: number) =>
-            index === 0 ? { top: 0, left: 0 } : { top: -9999, left: -9999 },
-          getItemDimensions,
-          isMainItem: (index: number) => index === 0,
-          pagination,
-          isItemVisible: () => true,
-          hiddenCount: 0,
-          getLastVisibleOthersIndex: () => -1,
-          getItemContentDimensions: createGetItemContentDimensions(
-            getItemDimensions,
-            options.itemAspectRatios,
-            options.aspectRatio
-          ),
-          floatIndex: 1,
-          floatDimensions: { width: floatW, height: floatH },
-        }
+      // Scrollable gallery: grows vertically instead of paginating
+      if (options.scrollable) {
+        return createScrollableGalleryGrid(options)
+      }
+
+      // Audio-only participants are packed as bubbles
+      if (options.hasVideo?.some((video) => video === false)) {
+        return createAudioBubbleGrid(options)
+      }
+
+      // 2-person mode: Zoom-style float layout
+      // The main person fills the container (edge-to-edge by default, like zoom mode with gap=0)
+      // The other person becomes draggable floating PiP (person 1 by default)
+      // Opt out with twoPersonLayout: 'gallery'
+      // An explicit self-view policy (selfViewMode) or floatIndices replaces this
+      if (isTwoPersonFloatLayout(options)) {
+        return createTwoPersonGrid(options)
       }
 
       // Small mobile screens (width < 500px): override aspectRatio to container ratio
@@ -1426,58 +4623,102 @@ export function createMeetGrid(options: MeetGridOptions): MeetGridResult {
           // Truly mixed ratios — use flexible justified gallery layout
           // Only skip on small mobile screens where we force fill/stretch
           if (!isMobile) {
-            return createFlexibleGalleryGrid(options)
+            const limit = maxItemsPerPage && maxItemsPerPage > 0 ? 'maxItemsPerPage' : 'maxVisible'
+            return fitMinTileSize(options, limit, createFlexibleGalleryGrid)
           }
           // Mobile: fall through to standard uniform grid (ratio already overridden above)
         }
       }
 
+      // Minimum tile size: items beyond the capacity overflow onto further pages or into
+      // the "+N" indicator instead of shrinking the tiles further
+      const capacity = options.minTileSize ? resolveMinTileCapacity(options) : count
+      const pageLimit =
+        maxItemsPerPage && maxItemsPerPage > 0 ? Math.min(maxItemsPerPage, capacity) : 0
+      const visibleLimit =
+        capacity < count ? Math.min(maxVisible || capacity, capacity) : maxVisible
+
       // Priority: pagination > maxVisible
       let visibleCount = count
       let hiddenCount = 0
       let startIndex = 0
       let endIndex = count
+      let pageIndices: number[] | undefined
+      let pagination: PaginationInfo | undefined
 
-      if (maxItemsPerPage && maxItemsPerPage > 0) {
-        const pagination = createPaginationInfo(count, maxItemsPerPage, currentPage)
+      if (pageLimit > 0) {
+        const page = createStickyPagination(count, pageLimit, currentPage, stickyIndices)
+        pagination = page.pagination
+        pageIndices = page.pageIndices
         visibleCount = pagination.itemsOnPage
-        startIndex = pagination.startIndex
-        endIndex = pagination.endIndex
-      } else if (maxVisible > 0 && count > maxVisible) {
-        visibleCount = maxVisible
+      } else if (visibleLimit > 0 && count > visibleLimit) {
+        visibleCount = visibleLimit
         // +1 because the last slot shows the indicator instead of a participant
-        hiddenCount = count - maxVisible + 1
+        hiddenCount = count - visibleLimit + 1
         startIndex = 0
-        endIndex = maxVisible
+        endIndex = visibleLimit
       }
 
-      const pagination: PaginationInfo =
-        maxItemsPerPage && maxItemsPerPage > 0
-          ? createPaginationInfo(count, maxItemsPerPage, currentPage)
-          : {
-              enabled: false,
-              currentPage: 0,
-              totalPages: 1,
-              itemsOnPage: visibleCount,
-              startIndex,
-              endIndex,
-            }
+      pagination ??= {
+        enabled: false,
+        currentPage: 0,
+        totalPages: 1,
+        itemsOnPage: visibleCount,
+        startIndex,
+        endIndex,
+      }
 
       const effectiveCount = visibleCount
 
-      // Standard uniform grid
-      const grid = createGrid({ ...options, count: effectiveCount })
+      // Slot of each visible item; sticky items lead the page
+      const slotOf = new Map(
+        (pageIndices ?? Array.from({ length: effectiveCount }, (_, i) => startIndex + i)).map(
+          (index, slot) => [index, slot]
+        )
+      )
+
+      // Standard uniform grid, scaled down (and re-centred) to stay within maxTileSize
+      let grid = createGrid({ ...options, count: effectiveCount })
+      if (options.maxTileSize) {
+        const { width: maxW, height: maxH } = options.maxTileSize
+        const scale = Math.min(1, maxW / grid.width, maxH / grid.height)
+        if (scale < 1) {
+          const tile = { width: grid.width * scale, height: grid.height * scale }
+          grid = {
+            ...grid,
+            ...tile,
+            ...createGridItemLayout({
+              parentDimensions: options.dimensions,
+              dimensions: tile,
+              rows: grid.rows,
+              cols: grid.cols,
+              count: effectiveCount,
+              gap: options.gap,
+              padding: options.padding,
+              rowGap: options.rowGap,
+              columnGap: options.columnGap,
+              lastRowAlign: options.lastRowAlign,
+            }),
+          }
+        }
+      }
 
-      // Create position getter that maps original index to relative index
+      // Create position getter that maps original index to its slot
       const getPosition = (index: number): Position => {
-        const relativeIndex = index - startIndex
-        if (relativeIndex < 0 || relativeIndex >= effectiveCount) {
+        const slot = slotOf.get(index)
+        if (slot === undefined) {
           return { top: -9999, left: -9999 }
         }
-        return grid.getPosition(relativeIndex)
+        return grid.getPosition(slot)
       }
 
-      const getItemDimensions = () => ({ width: grid.width, height: grid.height })
+      const getItemDimensions = (index: number): GridDimensions => {
+        const slot = slotOf.get(index)
+        if (slot === undefined) {
+          return { width: grid.width, height: grid.height }
+        }
+        return grid.getItemDimensions(slot)
+      }
 
       // Get last visible index (for +X indicator)
       const lastVisibleIndex = endIndex - 1
@@ -1489,7 +4730,7 @@ export function createMeetGrid(options: MeetGridOptions): MeetGridResult {
         getItemDimensions,
         isMainItem: () => false,
         pagination,
-        isItemVisible: (index: number) => index >= startIndex && index < endIndex,
+        isItemVisible: (index: number) => slotOf.has(index),
         hiddenCount,
         getLastVisibleOthersIndex: () => (hiddenCount > 0 ? lastVisibleIndex : -1),
         getItemContentDimensions: createGetItemContentDimensions(
@@ -1502,6 +4743,434 @@ export function createMeetGrid(options: MeetGridOptions): MeetGridResult {
   }
 }
 
+// ============================================
+// Stable Slots
+// ============================================
+
+/**
+ * Stateful display-slot assignment keyed by stable item ids
+ */
+export interface SlotAssigner {
+  /**
+   * Update the assignment with the current ids (in their natural order) and the
+   * current grid shape. Returns the ids in display order.
+   */
+  assign: (ids: string[], shape?: { rows: number; cols: number }) => string[]
+  /** Forget the assignment; the next call starts from the natural order */
+  reset: () => void
+}
+
+/**
+ * A display-slot assignment, as returned by assignSlots
+ */
+export interface SlotAssignment {
+  /** Ids in display order */
+  order: string[]
+  /** Grid shape the order was assigned for */
+  shape?: { rows: number; cols: number }
+}
+
+/**
+ * Derive the next slot assignment from the previous one (undefined starts from the
+ * natural order), following the rules of createSlotAssigner. Pure, so it can run while
+ * rendering; keep the returned assignment once it is committed and pass it back next time.
+ */
+export function assignSlots(
+  previous: SlotAssignment | undefined,
+  ids: string[],
+  shape?: { rows: number; cols: number }
+): SlotAssignment {
+  const present = new Set(ids)
+  const sameShape = previous?.shape?.rows === shape?.rows && previous?.shape?.cols === shape?.cols
+
+  const order: string[] = previous && sameShape ? [...previous.order] : []
+  for (let slot = 0; slot < order.length; slot++) {
+    if (present.has(order[slot])) continue
+    // Drop departed items from the end, then move the last tile into the hole
+    while (order.length > slot && !present.has(order[order.length - 1])) {
+      order.pop()
+    }
+    if (order.length > slot + 1) {
+      order[slot] = order.pop()!
+    }
+  }
+
+  const assigned = new Set(order)
+  for (const id of ids) {
+    if (!assigned.has(id)) {
+      assigned.add(id)
+      order.push(id)
+    }
+  }
+
+  return { order, shape: shape && { rows: shape.rows, cols: shape.cols } }
+}
+
+/**
+ * Create a slot assigner that keeps tiles in place as items join and leave.
+ * - A leaving item's slot is taken by the last tile; every other tile stays put.
+ * - Joining items are appended.
+ * - When the grid shape (rows/cols) changes, tiles move anyway, so the natural order is restored.
+ *
+ * @example
+ * const slots = createSlotAssigner()
+ * const { rows, cols } = getGridItemDimensions({ count: ids.length, dimensions, aspectRatio, gap })
+ * const order = slots.assign(ids, { rows, cols })
+ * const grid = createMeetGrid({ ...options, itemOrder: order.map((id) => ids.indexOf(id)) })
+ */
+export function createSlotAssigner(): SlotAssigner {
+  let assignment: SlotAssignment | undefined
+
+  return {
+    assign(ids, shape) {
+      assignment = assignSlots(assignment, ids, shape)
+      return [...assignment.order]
+    },
+    reset() {
+      assignment = undefined
+    },
+  }
+}
+
+// ============================================
+// Priority Ordering
+// ============================================
+
+/**
+ * Per-item signals for priority ordering
+ */
+export interface PrioritySignals {
+  /** Stable id; dwell state follows the id when indices shift (defaults to the index) */
+  id?: string
+  isSpeaking?: boolean
+  hasVideo?: boolean
+  handRaised?: boolean
+  /** Join time (ms), earlier joiners first among otherwise equal items */
+  joinedAt?: number
+  pinned?: boolean
+}
+
+/**
+ * Sort keys for priority ordering, most significant first
+ */
+export type PriorityKey = 'pinned' | 'speaking' | 'handRaised' | 'video' | 'joinedAt'
+
+/**
+ * Priority ordering policy
+ */
+export interface PriorityPolicy {
+  /**
+   * Sort keys, most significant first. Items equal on every key keep their previous order.
+   * @default ['pinned', 'speaking', 'handRaised', 'video', 'joinedAt']
+   */
+  order?: PriorityKey[]
+  /**
+   * Continuous speaking (ms) before an item is promoted as a speaker
+   * @default 1000
+   */
+  speakingDwell?: number
+  /**
+   * Time (ms) an item stays promoted after it stops speaking
+   * @default 5000
+   */
+  speakingHold?: number
+  /**
+   * Time (ms) a camera change must last before the item moves
+   * @default 2000
+   */
+  videoDwell?: number
+}
+
+/**
+ * Stateful priority ordering engine
+ */
+export interface PriorityOrderer {
+  /**
+   * Compute the display order for the current signals (index-based).
+   * Returns item indices in display order; pass it to createMeetGrid as itemOrder.
+   * Dwell times elapse between calls, so call it when signals change and on a timer.
+   */
+  update: (signals: PrioritySignals[], now?: number) => number[]
+  /** Forget all dwell state and the previous order */
+  reset: () => void
+}
+
+interface DwellState {
+  raw: boolean
+  since: number
+  effective: boolean
+}
+
+/**
+ * Advance a debounced boolean: it turns on after `dwellOn` ms of raw true and
+ * off after `dwellOff` ms of raw false.
+ */
+function stepDwell(
+  state: DwellState | undefined,
+  raw: boolean,
+  now: number,
+  dwellOn: number,
+  dwellOff: number
+): DwellState {
+  // First sighting: take the raw value as is
+  if (!state) return { raw, since: now, effective: raw }
+
+  const next = raw === state.raw ? { ...state } : { raw, since: now, effective: state.effective }
+  const elapsed = now - next.since
+  if (raw && !next.effective && elapsed >= dwellOn) next.effective = true
+  if (!raw && next.effective && elapsed >= dwellOff) next.effective = false
+  return next
+}
+
+/**
+ * Create a priority ordering engine.
+ * Items are ranked by the policy's sort keys using debounced speaking/video signals,
+ * so a single cough or a flickering camera does not swap tiles.
+ *
+ * @example
+ * const priority = createPriorityOrderer({ speakingHold: 8000 })
+ * const itemOrder = priority.update(participants.map((p) => ({
+ *   id: p.id,
+ *   isSpeaking: p.isSpeaking,
+ *   hasVideo: p.cameraOn,
+ *   joinedAt: p.joinedAt,
+ * })))
+ * const grid = createMeetGrid({ ...options, maxItemsPerPage: 9, itemOrder })
+ */
+export function createPriorityOrderer(policy: PriorityPolicy = {}): PriorityOrderer {
+  const {
+    order: keys = ['pinned', 'speaking', 'handRaised', 'video', 'joinedAt'],
+    speakingDwell = 1000,
+    speakingHold = 5000,
+    videoDwell = 2000,
+  } = policy
+
+  let speaking = new Map<string, DwellState>()
+  let video = new Map<string, DwellState>()
+  let previousRank = new Map<string, number>()
+
+  return {
+    update(signals, now = Date.now()) {
+      const ids = signals.map((signal, index) => signal.id ?? String(index))
+      const nextSpeaking = new Map<string, DwellState>()
+      const nextVideo = new Map<string, DwellState>()
+
+      ids.forEach((id, index) => {
+        const signal = signals[index]
+        nextSpeaking.set(
+          id,
+          stepDwell(speaking.get(id), !!signal.isSpeaking, now, speakingDwell, speakingHold)
+        )
+        nextVideo.set(
+          id,
+          stepDwell(video.get(id), signal.hasVideo !== false, now, videoDwell, videoDwell)
+        )
+      })
+      speaking = nextSpeaking
+      video = nextVideo
+
+      // Higher ranks first; joinedAt ascending
+      const keyValue = (key: PriorityKey, index: number): number => {
+        const signal = signals[index]
+        switch (key) {
+          case 'pinned':
+            return signal.pinned ? 1 : 0
+          case 'speaking':
+            return speaking.get(ids[index])!.effective ? 1 : 0
+          case 'handRaised':
+            return signal.handRaised ? 1 : 0
+          case 'video':
+            return video.get(ids[index])!.effective ? 1 : 0
+          case 'joinedAt':
+            return -(signal.joinedAt ?? Infinity)
+        }
+      }
+
+      const order = signals.map((_, index) => index)
+      order.sort((a, b) => {
+        for (const key of keys) {
+          const diff = keyValue(key, b) - keyValue(key, a)
+          if (diff !== 0 && !Number.isNaN(diff)) return diff
+        }
+        // Ties keep their previous order (new items after known ones)
+        const rankA = previousRank.get(ids[a]) ?? Infinity
+        const rankB = previousRank.get(ids[b]) ?? Infinity
+        return rankA !== rankB ? (rankA < rankB ? -1 : 1) : a - b
+      })
+
+      previousRank = new Map(order.map((index, rank) => [ids[index], rank]))
+      return order
+    },
+    reset() {
+      speaking = new Map()
+      video = new Map()
+      previousRank = new Map()
+    },
+  }
+}
+
+// ============================================
+// Freeform Helpers
+// ============================================
+
+/**
+ * Create an empty freeform layout state
+ */
+export function createFreeformLayout(): FreeformLayoutState {
+  return { version: 1, items: {} }
+}
+
+/**
+ * Store an item's rect (in pixels) in a freeform layout state and bring it to the front.
+ * Returns a new state; the input is not mutated.
+ */
+export function updateFreeformItem(
+  state: FreeformLayoutState,
+  index: number,
+  rect: GridRect,
+  dimensions: GridDimensions
+): FreeformLayoutState {
+  const { width: W, height: H } = dimensions
+  if (W === 0 || H === 0) {
+    return state
+  }
+
+  const topZ = Object.values(state.items).reduce((max, item) => Math.max(max, item.zIndex), 0)
+  const current = state.items[index]
+  const zIndex = current && current.zIndex === topZ ? topZ : topZ + 1
+
+  return {
+    ...state,
+    items: {
+      ...state.items,
+      [index]: {
+        x: rect.left / W,
+        y: rect.top / H,
+        width: rect.width / W,
+        height: rect.height / H,
+        zIndex,
+      },
+    },
+  }
+}
+
+/**
+ * Snap a dragged or resized rect to the container edges and to other items.
+ * - move: the rect keeps its size; its edges snap to container edges (inset by gap),
+ *   to aligned edges of other items, and next to other items (separated by gap).
+ * - resize: the rect keeps its top-left corner; its right/bottom edges snap instead.
+ * The result is clamped to the container and to a minimum size.
+ */
+export function snapFreeformRect(
+  rect: GridRect,
+  {
+    dimensions,
+    others = [],
+    mode = 'move',
+    threshold = 12,
+    gap = 0,
+    minSize = 48,
+  }: {
+    dimensions: GridDimensions
+    others?: GridRect[]
+    mode?: 'move' | 'resize'
+    threshold?: number
+    gap?: number
+    minSize?: number
+  }
+): GridRect {
+  const { width: W, height: H } = dimensions
+
+  // Pick the candidate closest to value, if within threshold
+  const snap = (value: number, candidates: number[]) => {
+    let best = value
+    let bestDistance = threshold
+    for (const candidate of candidates) {
+      const distance = Math.abs(candidate - value)
+      if (distance <= bestDistance) {
+        best = candidate
+        bestDistance = distance
+      }
+    }
+    return best
+  }
+
+  let { top, left, width, height } = rect
+
+  if (mode === 'move') {
+    const leftTargets = [gap, W - gap - width]
+    const topTargets = [gap, H - gap - height]
+    for (const o of others) {
+      leftTargets.push(
+        o.left,
+        o.left + o.width - width,
+        o.left + o.width + gap,
+        o.left - gap - width
+      )
+      topTargets.push(
+        o.top,
+        o.top + o.height - height,
+        o.top + o.height + gap,
+        o.top - gap - height
+      )
+    }
+    left = snap(left, leftTargets)
+    top = snap(top, topTargets)
+  } else {
+    const rightTargets = [W - gap]
+    const bottomTargets = [H - gap]
+    for (const o of others) {
+      rightTargets.push(o.left + o.width, o.left - gap)
+      bottomTargets.push(o.top + o.height, o.top - gap)
+    }
+    width = snap(left + width, rightTargets) - left
+    height = snap(top + height, bottomTargets) - top
+  }
+
+  width = Math.min(Math.max(width, minSize), W)
+  height = Math.min(Math.max(height, minSize), H)
+  left = Math.min(Math.max(0, left), W - width)
+  top = Math.min(Math.max(0, top), H - height)
+
+  return { top, left, width, height }
+}
+
+/**
+ * Serialize a freeform layout state (for localStorage, a server, etc.)
+ */
+export function serializeFreeformLayout(state: FreeformLayoutState): string {
+  return JSON.stringify(state)
+}
+
+/**
+ * Restore a freeform layout state produced by serializeFreeformLayout.
+ * Throws if the input is not a valid layout state.
+ */
+export function parseFreeformLayout(serialized: string): FreeformLayoutState {
+  const invalid = () =>
+    new Error('meet-layout-grid: Invalid freeform layout provided, expected a serialized layout.')
+
+  let parsed: unknown
+  try {
+    parsed = JSON.parse(serialized)
+  } catch {
+    throw invalid()
+  }
+
+  const state = parsed as FreeformLayoutState
+  if (!state || state.version !== 1 || typeof state.items !== 'object' || state.items === null) {
+    throw invalid()
+  }
+  for (const item of Object.values(state.items)) {
+    const fields = [item?.x, item?.y, item?.width, item?.height, item?.zIndex]
+    if (fields.some((value) => typeof value !== 'number' || !Number.isFinite(value))) {
+      throw invalid()
+    }
+  }
+
+  return state
+}
+
 // ============================================
 // Animation Helpers
 // ============================================
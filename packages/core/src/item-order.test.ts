@@ -0,0 +1,126 @@
+import { describe, expect, it } from 'vitest'
+import { createMeetGrid, type MeetGridOptions } from './index'
+
+const base: MeetGridOptions = {
+  dimensions: { width: 1280, height: 720 },
+  gap: 8,
+  aspectRatio: '16:9',
+  count: 6,
+}
+const reversed = [5, 4, 3, 2, 1, 0]
+
+const visibleItems = (options: MeetGridOptions) => {
+  const grid = createMeetGrid(options)
+  return Array.from({ length: options.count }, (_, i) => i).filter((i) => grid.isItemVisible(i))
+}
+
+describe('itemOrder', () => {
+  it('places items in the slots given by the order', () => {
+    const plain = createMeetGrid(base)
+    const grid = createMeetGrid({ ...base, itemOrder: reversed })
+
+    expect(grid.itemOrder).toEqual(reversed)
+    reversed.forEach((index, slot) => {
+      expect(grid.getPosition(index)).toEqual(plain.getPosition(slot))
+    })
+  })
+
+  it('completes a partial order and ignores invalid entries', () => {
+    const grid = createMeetGrid({ ...base, itemOrder: [3, 3, 9, -1, 0] })
+    expect(grid.itemOrder).toEqual([3, 0, 1, 2, 4, 5])
+  })
+
+  it('returns no itemOrder when nothing is reordered', () => {
+    expect(createMeetGrid({ ...base, itemOrder: [0, 1, 2] }).itemOrder).toBeUndefined()
+  })
+
+  it('keeps stage members on stage', () => {
+    const options: MeetGridOptions = { ...base, layoutMode: 'stage', stageIndices: [4, 5] }
+    expect(visibleItems({ ...options, itemOrder: reversed })).toEqual([4, 5])
+    expect(createMeetGrid({ ...options, itemOrder: reversed }).audienceCount).toBe(4)
+  })
+
+  it('keeps group membership', () => {
+    const groups = [
+      { id: 'a', indices: [0, 1] },
+      { id: 'b', indices: [4] },
+    ]
+    const grid = createMeetGrid({ ...base, layoutMode: 'grouped', groups, itemOrder: reversed })
+    const [a, b] = grid.groups!
+
+    for (const index of [0, 1]) {
+      const { top, left } = grid.getPosition(index)
+      expect(top).toBeGreaterThanOrEqual(a.bounds.top)
+      expect(left).toBeGreaterThanOrEqual(a.bounds.left)
+      expect(left).toBeLessThan(a.bounds.left + a.bounds.width)
+    }
+    const { left } = grid.getPosition(4)
+    expect(left).toBeGreaterThanOrEqual(b.bounds.left)
+    expect(visibleItems({ ...base, layoutMode: 'grouped', groups, itemOrder: reversed })).toEqual([
+      0, 1, 4,
+    ])
+  })
+
+  it('keeps template areas and item roles', () => {
+    const options: MeetGridOptions = {
+      ...base,
+      layoutMode: 'template',
+      template: 'a b',
+      templateAreas: { a: [2] },
+      itemRoles: [undefined, undefined, undefined, undefined, 'b'],
+    }
+    const plain = createMeetGrid(options)
+    const grid = createMeetGrid({ ...options, itemOrder: reversed })
+
+    expect(grid.getPosition(2)).toEqual(plain.getPosition(2))
+    expect(grid.getPosition(4)).toEqual(plain.getPosition(4))
+    expect(grid.getPosition(2).left).toBeLessThan(grid.getPosition(4).left)
+  })
+
+  it('keeps stored freeform rects with their items', () => {
+    const freeformLayout = {
+      version: 1 as const,
+      items: { 1: { x: 0.5, y: 0.5, width: 0.25, height: 0.25, zIndex: 3 } },
+    }
+    const grid = createMeetGrid({
+      ...base,
+      layoutMode: 'freeform',
+      freeformLayout,
+      itemOrder: reversed,
+    })
+
+    expect(grid.getPosition(1)).toEqual({ top: 360, left: 640 })
+    expect(grid.getItemDimensions(1)).toEqual({ width: 320, height: 180 })
+    expect(grid.getItemZIndex!(1)).toBe(3)
+  })
+
+  it('keeps the front card of the stack', () => {
+    const grid = createMeetGrid({
+      ...base,
+      layoutMode: 'stack',
+      stackIndex: 4,
+      itemOrder: reversed,
+    })
+    expect(grid.stackIndex).toBe(4)
+    expect(grid.isMainItem(4)).toBe(true)
+  })
+
+  it('keeps the floating item of the two-person layout', () => {
+    const grid = createMeetGrid({ ...base, count: 2, twoPersonFloatIndex: 0, itemOrder: [1, 0] })
+    expect(grid.floatIndex).toBe(0)
+  })
+
+  it('reports the visible range in slots when scrolling', () => {
+    const count = 40
+    const itemOrder = Array.from({ length: count }, (_, i) => count - 1 - i)
+    const options: MeetGridOptions = { ...base, count, layoutMode: 'gallery', scrollable: true }
+    const viewport = { top: 0, height: 300 }
+    const plain = createMeetGrid(options).getVisibleRange!(viewport)
+    const grid = createMeetGrid({ ...options, itemOrder })
+
+    expect(grid.getVisibleRange!(viewport)).toEqual(plain)
+    for (let slot = plain.startIndex; slot < plain.endIndex; slot++) {
+      expect(grid.getPosition(itemOrder[slot]).top).toBeLessThan(viewport.height)
+    }
+  })
+})
@@ -0,0 +1,124 @@
+import { describe, expect, it } from 'vitest'
+import { createGrid, createMeetGrid, type GridOptions, type MeetGridOptions } from './index'
+
+const base: GridOptions = {
+  dimensions: { width: 1280, height: 720 },
+  gap: 8,
+  aspectRatio: '16:9',
+  count: 7,
+}
+
+/** Item indices grouped by row (same top) */
+const rowsOf = (grid: { getPosition: (index: number) => { top: number } }, count: number) => {
+  const rows = new Map<number, number[]>()
+  for (let i = 0; i < count; i++) {
+    const { top } = grid.getPosition(i)
+    rows.set(top, [...(rows.get(top) ?? []), i])
+  }
+  return [...rows.values()]
+}
+
+describe('lastRowAlign', () => {
+  it('centres the incomplete last row by default', () => {
+    const grid = createGrid(base)
+    expect(rowsOf(grid, 7).map((row) => row.length)).toEqual([3, 3, 1])
+    expect(grid.getPosition(6).left).toBe(grid.getPosition(4).left)
+  })
+
+  it("aligns the last row with the first or last column for 'start' and 'end'", () => {
+    const start = createGrid({ ...base, lastRowAlign: 'start' })
+    const end = createGrid({ ...base, lastRowAlign: 'end' })
+
+    expect(start.getPosition(6).left).toBe(start.getPosition(3).left)
+    expect(end.getPosition(6).left).toBe(end.getPosition(5).left)
+    expect(start.getItemDimensions(6)).toEqual({ width: start.width, height: start.height })
+  })
+
+  it("widens the last row's tiles to fill the row for 'stretch'", () => {
+    const grid = createGrid({ ...base, count: 8, lastRowAlign: 'stretch' })
+    const rowLeft = grid.getPosition(3).left
+    const rowRight = grid.getPosition(5).left + grid.width
+
+    expect(grid.getItemDimensions(0).width).toBe(grid.width)
+    expect(grid.getItemDimensions(6).height).toBe(grid.height)
+    expect(grid.getPosition(6).left).toBeCloseTo(rowLeft)
+    expect(grid.getPosition(7).left + grid.getItemDimensions(7).width).toBeCloseTo(rowRight)
+    expect(grid.getPosition(7).left - grid.getPosition(6).left).toBeCloseTo(
+      grid.getItemDimensions(6).width + 8
+    )
+  })
+
+  it("balances the rows at the same column count for 'spread' (10 → 4 + 3 + 3)", () => {
+    const plain = createGrid({ ...base, count: 10 })
+    const grid = createGrid({ ...base, count: 10, lastRowAlign: 'spread' })
+
+    expect(rowsOf(plain, 10).map((row) => row.length)).toEqual([4, 4, 2])
+    expect(rowsOf(grid, 10).map((row) => row.length)).toEqual([4, 3, 3])
+    expect(grid.cols).toBe(plain.cols)
+    expect(grid.getItemDimensions(9)).toEqual(plain.getItemDimensions(9))
+  })
+
+  it("centres the shorter rows for 'spread'", () => {
+    const grid = createGrid({ ...base, count: 10, lastRowAlign: 'spread' })
+    const [, second, third] = rowsOf(grid, 10)
+    const offset = (grid.width + 8) / 2
+
+    expect(grid.getPosition(second[0]).left).toBeCloseTo(grid.getPosition(0).left + offset)
+    expect(grid.getPosition(third[0]).left).toBe(grid.getPosition(second[0]).left)
+  })
+
+  it("leaves full grids alone for 'spread'", () => {
+    const plain = createGrid({ ...base, count: 9 })
+    const grid = createGrid({ ...base, count: 9, lastRowAlign: 'spread' })
+    for (let i = 0; i < 9; i++) expect(grid.getPosition(i)).toEqual(plain.getPosition(i))
+  })
+
+  it("keeps rows within one item of each other for 'spread'", () => {
+    for (let count = 1; count <= 30; count++) {
+      const grid = createGrid({ ...base, count, lastRowAlign: 'spread' })
+      const lengths = rowsOf(grid, count).map((row) => row.length)
+      expect(Math.max(...lengths) - Math.min(...lengths)).toBeLessThanOrEqual(1)
+      expect(lengths.length).toBe(grid.rows)
+      expect(grid.cols).toBe(createGrid({ ...base, count }).cols)
+    }
+  })
+
+  it('applies to the uniform gallery of createMeetGrid', () => {
+    const grid = createMeetGrid({ ...base, lastRowAlign: 'stretch' })
+    const plain = createGrid({ ...base, lastRowAlign: 'stretch' })
+    expect(grid.getItemDimensions(6)).toEqual(plain.getItemDimensions(6))
+  })
+
+  describe('pin thumbnails', () => {
+    const pin: MeetGridOptions = { ...base, count: 10, pinnedIndex: 0 }
+
+    it("aligns the thumbnails' last row", () => {
+      const start = createMeetGrid({ ...pin, lastRowAlign: 'start' })
+      const end = createMeetGrid({ ...pin, lastRowAlign: 'end' })
+      expect(start.getPosition(9).left).toBe(start.getPosition(1).left)
+      expect(end.getPosition(9).left).toBe(end.getPosition(2).left)
+    })
+
+    it("stretches the thumbnails' last row", () => {
+      const grid = createMeetGrid({ ...pin, lastRowAlign: 'stretch' })
+      const { width } = grid.getItemDimensions(1)
+      expect(grid.getItemDimensions(9).width).toBeCloseTo(2 * width + 8)
+    })
+
+    it('balances the thumbnail rows without shrinking them', () => {
+      const portrait: MeetGridOptions = {
+        ...pin,
+        count: 11,
+        dimensions: { width: 720, height: 1280 },
+      }
+      const plain = createMeetGrid(portrait)
+      const grid = createMeetGrid({ ...portrait, lastRowAlign: 'spread' })
+      const lengthsOf = (result: typeof grid) =>
+        rowsOf({ getPosition: (i) => result.getPosition(i + 1) }, 10).map((row) => row.length)
+
+      expect(lengthsOf(plain)).toEqual([4, 4, 2])
+      expect(lengthsOf(grid)).toEqual([4, 3, 3])
+      expect(grid.getItemDimensions(1)).toEqual(plain.getItemDimensions(1))
+    })
+  })
+})
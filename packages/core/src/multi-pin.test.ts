@@ -0,0 +1,93 @@
+import { describe, expect, it } from 'vitest'
+import { createMeetGrid, type MeetGridOptions, type MeetGridResult } from './index'
+
+const base: MeetGridOptions = {
+  dimensions: { width: 1280, height: 720 },
+  count: 6,
+  aspectRatio: '16:9',
+  gap: 8,
+  layoutMode: 'gallery',
+}
+
+const rect = (grid: MeetGridResult, index: number) => ({
+  ...grid.getPosition(index),
+  ...grid.getItemDimensions(index),
+})
+
+const overlaps = (grid: MeetGridResult, a: number, b: number) => {
+  const ra = rect(grid, a)
+  const rb = rect(grid, b)
+  return (
+    ra.left < rb.left + rb.width &&
+    rb.left < ra.left + ra.width &&
+    ra.top < rb.top + rb.height &&
+    rb.top < ra.top + ra.height
+  )
+}
+
+describe('pinnedIndices', () => {
+  it('shares the main area between the pinned items', () => {
+    const grid = createMeetGrid({ ...base, pinnedIndices: [0, 3] })
+    const main = grid.getItemDimensions(0)
+    const thumb = grid.getItemDimensions(1)
+
+    expect([0, 1, 2, 3, 4, 5].map((i) => grid.isMainItem(i))).toEqual([
+      true,
+      false,
+      false,
+      true,
+      false,
+      false,
+    ])
+    expect(grid.getItemDimensions(3)).toEqual(main)
+    expect(main.width).toBeGreaterThan(thumb.width)
+    expect(overlaps(grid, 0, 3)).toBe(false)
+  })
+
+  it('keeps every tile apart and inside the container', () => {
+    const grid = createMeetGrid({ ...base, count: 8, pinnedIndices: [1, 5, 6] })
+
+    for (let a = 0; a < 8; a++) {
+      const r = rect(grid, a)
+      expect(r.left).toBeGreaterThanOrEqual(0)
+      expect(r.top).toBeGreaterThanOrEqual(0)
+      expect(r.left + r.width).toBeLessThanOrEqual(1280 + 0.5)
+      expect(r.top + r.height).toBeLessThanOrEqual(720 + 0.5)
+      for (let b = a + 1; b < 8; b++) {
+        expect(overlaps(grid, a, b)).toBe(false)
+      }
+    }
+  })
+
+  it('takes precedence over pinnedIndex', () => {
+    const grid = createMeetGrid({ ...base, pinnedIndex: 2, pinnedIndices: [4] })
+
+    expect(grid.isMainItem(4)).toBe(true)
+    expect(grid.isMainItem(2)).toBe(false)
+  })
+
+  it('matches pinnedIndex for a single pinned item', () => {
+    const single = createMeetGrid({ ...base, pinnedIndex: 2 })
+    const multi = createMeetGrid({ ...base, pinnedIndices: [2] })
+
+    for (let i = 0; i < 6; i++) {
+      expect(rect(multi, i)).toEqual(rect(single, i))
+    }
+  })
+
+  it('drops invalid and duplicate indices', () => {
+    const grid = createMeetGrid({ ...base, pinnedIndices: [1, 1, -1, 9] })
+    const single = createMeetGrid({ ...base, pinnedIndex: 1 })
+
+    expect(grid.isMainItem(1)).toBe(true)
+    expect(rect(grid, 1)).toEqual(rect(single, 1))
+  })
+
+  it('gives the whole container to the main area when everyone is pinned', () => {
+    const grid = createMeetGrid({ ...base, count: 2, pinnedIndices: [0, 1] })
+
+    expect(grid.isMainItem(0) && grid.isMainItem(1)).toBe(true)
+    expect(overlaps(grid, 0, 1)).toBe(false)
+    expect(grid.getItemDimensions(0).width).toBeGreaterThan(1280 / 2 - 16)
+  })
+})
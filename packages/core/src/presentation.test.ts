@@ -0,0 +1,85 @@
+import { describe, expect, it } from 'vitest'
+import { createMeetGrid, type MeetGridOptions } from './index'
+
+const base: MeetGridOptions = {
+  dimensions: { width: 1280, height: 720 },
+  gap: 8,
+  aspectRatio: '16:9',
+  count: 6,
+  layoutMode: 'presentation',
+  contentIndices: [0],
+  presenterIndex: 1,
+}
+const speakers = [2, 3, 4, 5]
+
+const rect = (grid: ReturnType<typeof createMeetGrid>, index: number) => ({
+  ...grid.getPosition(index),
+  ...grid.getItemDimensions(index),
+})
+
+describe('presentation mode', () => {
+  it('fits the content at its own aspect ratio', () => {
+    const grid = createMeetGrid({ ...base, itemAspectRatios: ['4:3'] })
+    const { width, height } = grid.getItemDimensions(0)
+
+    expect(width / height).toBeCloseTo(4 / 3)
+    expect(grid.isMainItem(0)).toBe(true)
+    expect(grid.isMainItem(1)).toBe(false)
+  })
+
+  it('gives the strip all the space a portrait share leaves over', () => {
+    const grid = createMeetGrid({ ...base, itemAspectRatios: ['9:16'] })
+    const content = rect(grid, 0)
+    const presenter = rect(grid, 1)
+
+    // Content keeps the full height and sits at the edge; the strip starts right after it
+    expect(content.height).toBeCloseTo(704)
+    expect(content.left).toBeCloseTo(8)
+    const stripLeft = content.left + content.width + 8
+    for (const index of [1, ...speakers]) {
+      expect(grid.getPosition(index).left).toBeGreaterThanOrEqual(stripLeft - 1e-9)
+    }
+    // The strip is far wider than a fixed 40% band
+    expect(presenter.width).toBeGreaterThan(1264 * 0.4)
+  })
+
+  it('shrinks a full-size share to make room for the strip', () => {
+    const grid = createMeetGrid(base)
+    const content = rect(grid, 0)
+
+    expect(content.width).toBeLessThan(1264)
+    for (const index of [1, ...speakers]) {
+      const tile = rect(grid, index)
+      expect(tile.width).toBeGreaterThanOrEqual(160 - 1e-9)
+      expect(
+        tile.left >= content.left + content.width || tile.top >= content.top + content.height
+      ).toBe(true)
+    }
+  })
+
+  it('keeps the presenter clearly larger than the speakers', () => {
+    for (const ratio of ['16:9', '9:16', '4:3']) {
+      const grid = createMeetGrid({ ...base, itemAspectRatios: [ratio] })
+      const presenter = rect(grid, 1)
+      for (const index of speakers) {
+        expect(rect(grid, index).width).toBeLessThanOrEqual(presenter.width / 2 + 1e-9)
+      }
+    }
+  })
+
+  it('paginates the speakers while the presenter stays visible', () => {
+    const grid = createMeetGrid({ ...base, maxVisible: 2, currentVisiblePage: 1 })
+
+    expect(grid.isItemVisible(1)).toBe(true)
+    expect(speakers.filter((index) => grid.isItemVisible(index))).toEqual([4, 5])
+    expect(grid.pagination).toMatchObject({ enabled: true, currentPage: 1, totalPages: 2 })
+  })
+
+  it('behaves like the gallery while nothing is shared', () => {
+    const grid = createMeetGrid({ ...base, contentIndices: [] })
+    const gallery = createMeetGrid({ ...base, layoutMode: 'gallery' })
+
+    expect(grid.layoutMode).toBe('presentation')
+    expect(grid.getPosition(3)).toEqual(gallery.getPosition(3))
+  })
+})
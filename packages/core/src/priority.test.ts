@@ -0,0 +1,120 @@
+import { describe, expect, it } from 'vitest'
+import { createPriorityOrderer } from './index'
+
+describe('createPriorityOrderer', () => {
+  it('ranks pinned, then speaking, raised hands, video and earlier joiners', () => {
+    const priority = createPriorityOrderer()
+    const order = priority.update(
+      [
+        { joinedAt: 1 },
+        { joinedAt: 2, hasVideo: false },
+        { joinedAt: 3, handRaised: true },
+        { joinedAt: 4, isSpeaking: true },
+        { joinedAt: 5, pinned: true },
+        { joinedAt: 0, hasVideo: false },
+      ],
+      0
+    )
+
+    expect(order).toEqual([4, 3, 2, 0, 5, 1])
+  })
+
+  it('follows a custom key order', () => {
+    const priority = createPriorityOrderer({ order: ['handRaised', 'pinned'] })
+
+    expect(priority.update([{ pinned: true }, { handRaised: true }], 0)).toEqual([1, 0])
+  })
+
+  it('promotes a speaker only after the speaking dwell', () => {
+    const priority = createPriorityOrderer({ speakingDwell: 1000 })
+    priority.update([{ id: 'a' }, { id: 'b' }], 0)
+
+    expect(priority.update([{ id: 'a' }, { id: 'b', isSpeaking: true }], 100)).toEqual([0, 1])
+    expect(priority.update([{ id: 'a' }, { id: 'b', isSpeaking: true }], 600)).toEqual([0, 1])
+    expect(priority.update([{ id: 'a' }, { id: 'b', isSpeaking: true }], 1100)).toEqual([1, 0])
+  })
+
+  it('ignores a short burst of speech', () => {
+    const priority = createPriorityOrderer({ speakingDwell: 1000 })
+    priority.update([{ id: 'a' }, { id: 'b' }], 0)
+    priority.update([{ id: 'a' }, { id: 'b', isSpeaking: true }], 100)
+
+    expect(priority.update([{ id: 'a' }, { id: 'b' }], 300)).toEqual([0, 1])
+    expect(priority.update([{ id: 'a' }, { id: 'b' }], 2000)).toEqual([0, 1])
+  })
+
+  it('keeps a speaker promoted for the hold time after they stop', () => {
+    const priority = createPriorityOrderer({ speakingDwell: 0, speakingHold: 5000 })
+    priority.update(
+      [
+        { id: 'a', joinedAt: 1 },
+        { id: 'b', joinedAt: 2 },
+      ],
+      0
+    )
+    priority.update(
+      [
+        { id: 'a', joinedAt: 1 },
+        { id: 'b', joinedAt: 2, isSpeaking: true },
+      ],
+      100
+    )
+
+    expect(
+      priority.update(
+        [
+          { id: 'a', joinedAt: 1 },
+          { id: 'b', joinedAt: 2 },
+        ],
+        1000
+      )
+    ).toEqual([1, 0])
+    expect(
+      priority.update(
+        [
+          { id: 'a', joinedAt: 1 },
+          { id: 'b', joinedAt: 2 },
+        ],
+        5000
+      )
+    ).toEqual([1, 0])
+    expect(
+      priority.update(
+        [
+          { id: 'a', joinedAt: 1 },
+          { id: 'b', joinedAt: 2 },
+        ],
+        6000
+      )
+    ).toEqual([0, 1])
+  })
+
+  it('waits for the video dwell before moving a camera change', () => {
+    const priority = createPriorityOrderer({ videoDwell: 2000 })
+    priority.update([{ id: 'a' }, { id: 'b' }], 0)
+
+    expect(priority.update([{ id: 'a', hasVideo: false }, { id: 'b' }], 500)).toEqual([0, 1])
+    expect(priority.update([{ id: 'a', hasVideo: false }, { id: 'b' }], 2500)).toEqual([1, 0])
+  })
+
+  it('keeps the previous order for ties, following ids when indices shift', () => {
+    const priority = createPriorityOrderer()
+    priority.update([{ id: 'a', pinned: true }, { id: 'b' }, { id: 'c' }], 0)
+    // a unpinned: equal on every key, so the previous order holds
+    expect(priority.update([{ id: 'a' }, { id: 'b' }, { id: 'c' }], 10)).toEqual([0, 1, 2])
+
+    priority.update([{ id: 'a' }, { id: 'b' }, { id: 'c', pinned: true }], 20)
+    // Same items, new indices: c keeps its lead over a and b
+    expect(priority.update([{ id: 'c' }, { id: 'a' }, { id: 'b' }], 30)).toEqual([0, 1, 2])
+    // A new item goes after the known ones
+    expect(priority.update([{ id: 'x' }, { id: 'c' }, { id: 'a' }], 40)).toEqual([1, 2, 0])
+  })
+
+  it('forgets the previous order on reset', () => {
+    const priority = createPriorityOrderer()
+    priority.update([{ id: 'a' }, { id: 'b', pinned: true }], 0)
+    priority.reset()
+
+    expect(priority.update([{ id: 'a' }, { id: 'b' }], 10)).toEqual([0, 1])
+  })
+})
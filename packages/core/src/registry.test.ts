@@ -0,0 +1,152 @@
+import { afterEach, describe, expect, it } from 'vitest'
+import {
+  createMeetGrid,
+  registerLayoutMode,
+  unregisterLayoutMode,
+  type MeetGridOptions,
+  type MeetGridResult,
+} from './index'
+
+declare module './index' {
+  interface LayoutModeRegistry {
+    column: true
+  }
+}
+
+const base: MeetGridOptions = {
+  dimensions: { width: 1280, height: 720 },
+  count: 4,
+  aspectRatio: '16:9',
+  gap: 8,
+}
+
+// Every item in a single column, full width, honouring padding and rowGap
+const column = (options: MeetGridOptions): MeetGridResult => {
+  const { dimensions, gap, count, padding = gap, rowGap = gap } = options
+  const {
+    top = gap,
+    right = gap,
+    bottom = gap,
+    left = gap,
+  } = typeof padding === 'number'
+    ? { top: padding, right: padding, bottom: padding, left: padding }
+    : padding
+  const gallery = createMeetGrid({ ...options, layoutMode: 'gallery' })
+  const height = (dimensions.height - top - bottom - rowGap * (count - 1)) / count
+  const width = dimensions.width - left - right
+  return {
+    ...gallery,
+    width,
+    height,
+    rows: count,
+    cols: 1,
+    layoutMode: 'column',
+    getPosition: (index) => ({ top: top + index * (height + rowGap), left }),
+    getItemDimensions: () => ({ width, height }),
+  }
+}
+
+describe('layout mode registry', () => {
+  afterEach(() => {
+    unregisterLayoutMode('column')
+  })
+
+  it('lays out registered modes with their factory', () => {
+    registerLayoutMode('column', column)
+    const grid = createMeetGrid({ ...base, layoutMode: 'column' })
+
+    expect(grid.layoutMode).toBe('column')
+    expect(grid.cols).toBe(1)
+    expect(grid.getPosition(1)).toEqual({ top: 8 + 170 + 8, left: 8 })
+  })
+
+  it('replaces the factory when a name is registered again', () => {
+    registerLayoutMode('column', column)
+    registerLayoutMode('column', (options) => ({ ...column(options), cols: 2 }))
+
+    expect(createMeetGrid({ ...base, layoutMode: 'column' }).cols).toBe(2)
+  })
+
+  it('refuses to override built-in modes', () => {
+    expect(() => registerLayoutMode('gallery', column)).toThrow(
+      'meet-layout-grid: Cannot register built-in layout mode "gallery".'
+    )
+  })
+
+  it('applies item order to custom modes', () => {
+    registerLayoutMode('column', column)
+    const grid = createMeetGrid({ ...base, layoutMode: 'column', itemOrder: [3, 2, 1, 0] })
+
+    expect(grid.getPosition(3)).toEqual({ top: 8, left: 8 })
+  })
+
+  it('reports whether a mode was removed', () => {
+    registerLayoutMode('column', column)
+
+    expect(unregisterLayoutMode('column')).toBe(true)
+    expect(unregisterLayoutMode('column')).toBe(false)
+    // Unknown modes fall back to the gallery
+    expect(createMeetGrid({ ...base, layoutMode: 'column' }).cols).toBe(2)
+  })
+
+  describe('wrappers', () => {
+    it('lays out the padded area and shifts the result into place', () => {
+      registerLayoutMode('column', column)
+      const grid = createMeetGrid({
+        ...base,
+        layoutMode: 'column',
+        padding: { top: 20, right: 30, bottom: 20, left: 30 },
+      })
+
+      // The factory sees the padded area with gap 0 and the row gaps kept
+      expect(grid.getPosition(0)).toEqual({ top: 20, left: 30 })
+      expect(grid.getItemDimensions(0)).toEqual({
+        width: 1280 - 60,
+        height: (720 - 40 - 3 * 8) / 4,
+      })
+      expect(grid.layoutMode).toBe('column')
+    })
+
+    it('grows the cells by tileChrome', () => {
+      registerLayoutMode('column', column)
+      const tileChrome = { bottom: 24 }
+      const plain = createMeetGrid({ ...base, layoutMode: 'column' })
+      const grid = createMeetGrid({ ...base, layoutMode: 'column', tileChrome })
+      const cell = grid.getItemDimensions(1)
+
+      expect(plain.getItemDimensions(1).height).toBe(170)
+      expect(cell.height).toBe((720 - 8 * 5 - 24 * 4) / 4 + 24)
+      expect(grid.getPosition(0).top).toBe(8)
+      expect(grid.getPosition(1).top).toBe(8 + cell.height + 8)
+    })
+
+    it('hands the factory only the items left after floats and the self-view policy', () => {
+      const seen: MeetGridOptions[] = []
+      registerLayoutMode('column', (options) => {
+        seen.push(options)
+        return column(options)
+      })
+      const floating = createMeetGrid({ ...base, layoutMode: 'column', floatIndices: [0] })
+      const hidden = createMeetGrid({
+        ...base,
+        layoutMode: 'column',
+        selfIndex: 2,
+        selfViewMode: 'hidden',
+      })
+
+      expect(seen.map((options) => options.count)).toEqual([3, 3])
+      expect(floating.floatIndex).toBe(0)
+      expect(floating.getPosition(1)).toEqual({ top: 8, left: 8 })
+      expect(hidden.isItemVisible(2)).toBe(false)
+      expect(hidden.getPosition(3)).toEqual({ top: 8 + 2 * ((720 - 32) / 3 + 8), left: 8 })
+    })
+
+    it('is not replaced by the two-person layout', () => {
+      registerLayoutMode('column', column)
+      const grid = createMeetGrid({ ...base, count: 2, layoutMode: 'column', padding: 10 })
+
+      expect(grid.getPosition(1)).toEqual({ top: 10 + 346 + 8, left: 10 })
+      expect(grid.getItemDimensions(0)).toEqual({ width: 1260, height: 346 })
+    })
+  })
+})
@@ -0,0 +1,60 @@
+import { describe, expect, it } from 'vitest'
+import { createMeetGrid, type LayoutScene, type MeetGridOptions } from './index'
+
+const scene: LayoutScene = {
+  width: 1600,
+  height: 900,
+  background: 'auditorium.png',
+  seats: [
+    { x: 0.1, y: 0.2, width: 0.2, height: 0.3 },
+    { x: 0.5, y: 0.2, width: 0.2, height: 0.3, zIndex: 5 },
+  ],
+}
+
+const base: MeetGridOptions = {
+  dimensions: { width: 1280, height: 720 },
+  gap: 8,
+  aspectRatio: '16:9',
+  count: 2,
+  layoutMode: 'scene',
+  scene,
+}
+
+describe('scene mode', () => {
+  it('maps items to seats scaled with the scene', () => {
+    const grid = createMeetGrid(base)
+
+    expect(grid.scene).toEqual({
+      bounds: { top: 0, left: 0, width: 1280, height: 720 },
+      background: 'auditorium.png',
+    })
+    expect(grid.getPosition(1)).toEqual({ top: 144, left: 640 })
+    expect(grid.getItemDimensions(1)).toEqual({ width: 256, height: 216 })
+    expect(grid.getItemZIndex!(1)).toBe(5)
+  })
+
+  it("crops the overflow with 'cover'", () => {
+    const grid = createMeetGrid({
+      ...base,
+      dimensions: { width: 1280, height: 1280 },
+      sceneFit: 'cover',
+    })
+    const { bounds } = grid.scene!
+
+    expect(bounds.height).toBe(1280)
+    expect(bounds.left).toBeLessThan(0)
+  })
+
+  it('falls back to the gallery with more items than seats, keeping the scene mode', () => {
+    const grid = createMeetGrid({ ...base, count: 3 })
+    const gallery = createMeetGrid({ ...base, count: 3, layoutMode: 'gallery' })
+
+    expect(grid.layoutMode).toBe('scene')
+    expect(grid.scene).toBeUndefined()
+    expect(grid.getPosition(2)).toEqual(gallery.getPosition(2))
+  })
+
+  it('falls back to the gallery without a scene', () => {
+    expect(createMeetGrid({ ...base, scene: undefined }).layoutMode).toBe('scene')
+  })
+})
@@ -0,0 +1,74 @@
+import { describe, expect, it } from 'vitest'
+import { createMeetGrid, type MeetGridOptions } from './index'
+
+const base: MeetGridOptions = {
+  dimensions: { width: 1280, height: 720 },
+  count: 100,
+  aspectRatio: '16:9',
+  gap: 8,
+  layoutMode: 'gallery',
+  scrollable: true,
+}
+
+// 7 columns of 160px+ tiles fit in 1280px
+const tileW = (1264 - 6 * 8) / 7
+const tileH = (tileW * 9) / 16
+const rowStep = tileH + 8
+
+describe('scrollable gallery', () => {
+  it('keeps tiles at minTileSize or larger and grows vertically', () => {
+    const grid = createMeetGrid(base)
+
+    expect(grid.cols).toBe(7)
+    expect(grid.rows).toBe(15)
+    expect(grid.width).toBeCloseTo(tileW)
+    expect(grid.height).toBeCloseTo(tileH)
+    expect(grid.scrollExtent!.height).toBeCloseTo(15 * tileH + 14 * 8 + 16)
+    expect(grid.getPosition(99).top).toBeCloseTo(8 + 14 * rowStep)
+  })
+
+  it('follows an explicit minTileSize', () => {
+    const grid = createMeetGrid({ ...base, minTileSize: { width: 300, height: 100 } })
+
+    expect(grid.cols).toBe(4)
+    expect(grid.width).toBeGreaterThanOrEqual(300)
+  })
+
+  it('ignores maxItemsPerPage and maxVisible', () => {
+    const grid = createMeetGrid({ ...base, maxItemsPerPage: 9, maxVisible: 4 })
+
+    expect(grid.pagination.enabled).toBe(false)
+    expect(grid.hiddenCount).toBe(0)
+    expect(grid.isItemVisible(99)).toBe(true)
+  })
+
+  it('matches the regular gallery when everything fits', () => {
+    const grid = createMeetGrid({ ...base, count: 6 })
+    const gallery = createMeetGrid({ ...base, count: 6, scrollable: false })
+
+    expect(grid.scrollExtent).toEqual({ width: 1280, height: 720 })
+    expect(grid.width).toBe(gallery.width)
+    expect(grid.getPosition(4)).toEqual(gallery.getPosition(4))
+    expect(grid.getVisibleRange!({ top: 0, height: 720 })).toEqual({ startIndex: 0, endIndex: 6 })
+  })
+
+  it('reports the items intersecting the viewport', () => {
+    const grid = createMeetGrid(base)
+
+    expect(grid.getVisibleRange!({ top: 0, height: 720 })).toEqual({ startIndex: 0, endIndex: 49 })
+    // Rows 3–10 intersect [3.5 rows, 3.5 rows + 720)
+    expect(grid.getVisibleRange!({ top: 8 + 3.5 * rowStep, height: 720 })).toEqual({
+      startIndex: 21,
+      endIndex: 77,
+    })
+    const end = grid.scrollExtent!.height
+    expect(grid.getVisibleRange!({ top: end - 720, height: 720 }).endIndex).toBe(100)
+  })
+
+  it('scrolls an item to the top of the viewport, clamped to the end', () => {
+    const grid = createMeetGrid(base)
+
+    expect(grid.getScrollOffset!(14)).toEqual({ top: expect.closeTo(2 * rowStep), left: 0 })
+    expect(grid.getScrollOffset!(99).top).toBeCloseTo(grid.scrollExtent!.height - 720)
+  })
+})
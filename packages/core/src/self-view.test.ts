@@ -0,0 +1,99 @@
+import { describe, expect, it } from 'vitest'
+import { createMeetGrid, type GridRect, type MeetGridOptions, type Position } from './index'
+
+const base: MeetGridOptions = {
+  dimensions: { width: 1280, height: 720 },
+  gap: 8,
+  aspectRatio: '16:9',
+  count: 6,
+}
+
+const groups = [
+  { id: 'a', indices: [0, 1, 2] },
+  { id: 'b', indices: [3, 4, 5] },
+]
+
+const inside = (position: Position, bounds: GridRect) =>
+  position.top >= bounds.top &&
+  position.top < bounds.top + bounds.height &&
+  position.left >= bounds.left &&
+  position.left < bounds.left + bounds.width
+
+describe('selfViewMode', () => {
+  it("lays out everyone else without the self tile when 'hidden'", () => {
+    const grid = createMeetGrid({ ...base, selfIndex: 0, selfViewMode: 'hidden' })
+    const others = createMeetGrid({ ...base, count: 5 })
+
+    expect(grid.isItemVisible(0)).toBe(false)
+    expect(grid.getPosition(1)).toEqual(others.getPosition(0))
+  })
+
+  it("docks the self tile in the bottom-right corner when 'corner-slot'", () => {
+    const grid = createMeetGrid({
+      ...base,
+      selfIndex: 2,
+      selfViewMode: 'corner-slot',
+      floatWidth: 200,
+      floatHeight: 120,
+    })
+
+    expect(grid.getPosition(2)).toEqual({ top: 720 - 120 - 8, left: 1280 - 200 - 8 })
+    expect(grid.getItemZIndex!(2)).toBeGreaterThan(grid.getItemZIndex!(0))
+  })
+
+  it("floats the self tile when 'float', even with one other participant", () => {
+    const grid = createMeetGrid({ ...base, count: 3, selfIndex: 1, selfViewMode: 'float' })
+    expect(grid.floatIndex).toBe(1)
+  })
+
+  it.each(['hidden', 'corner-slot'] as const)('keeps group membership when %s', (selfViewMode) => {
+    const grid = createMeetGrid({
+      ...base,
+      layoutMode: 'grouped',
+      groups,
+      selfIndex: 0,
+      selfViewMode,
+    })
+    const [a, b] = grid.groups!
+
+    for (const index of [1, 2]) expect(inside(grid.getPosition(index), a.bounds)).toBe(true)
+    for (const index of [3, 4, 5]) expect(inside(grid.getPosition(index), b.bounds)).toBe(true)
+  })
+
+  it.each(['hidden', 'corner-slot'] as const)('keeps template areas when %s', (selfViewMode) => {
+    const options: MeetGridOptions = {
+      ...base,
+      layoutMode: 'template',
+      template: 'a b',
+      templateAreas: { a: [3], b: [1] },
+    }
+    const plain = createMeetGrid(options)
+    const grid = createMeetGrid({ ...options, selfIndex: 0, selfViewMode })
+
+    expect(grid.getPosition(3)).toEqual(plain.getPosition(3))
+    expect(grid.getPosition(1)).toEqual(plain.getPosition(1))
+  })
+
+  it.each(['hidden', 'float'] as const)(
+    'reports the visible range in item indices when scrolling with %s',
+    (selfViewMode) => {
+      const grid = createMeetGrid({
+        ...base,
+        count: 60,
+        layoutMode: 'gallery',
+        scrollable: true,
+        selfIndex: 0,
+        selfViewMode,
+      })
+      const viewport = { top: 0, height: 600 }
+      const { startIndex, endIndex } = grid.getVisibleRange!(viewport)
+      const { height } = grid.getItemDimensions(1)
+
+      for (let index = 1; index < 60; index++) {
+        const { top } = grid.getPosition(index)
+        const visible = top < viewport.top + viewport.height && top + height > viewport.top
+        expect(index >= startIndex && index < endIndex).toBe(visible)
+      }
+    }
+  )
+})
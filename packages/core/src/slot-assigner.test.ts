@@ -0,0 +1,85 @@
+import { describe, expect, it } from 'vitest'
+import { assignSlots, createSlotAssigner } from './index'
+
+const shape = { rows: 2, cols: 3 }
+
+describe('createSlotAssigner', () => {
+  it('starts from the natural order', () => {
+    expect(createSlotAssigner().assign(['a', 'b', 'c'], shape)).toEqual(['a', 'b', 'c'])
+  })
+
+  it('fills a leaving item’s slot with the last tile and keeps the others in place', () => {
+    const slots = createSlotAssigner()
+    slots.assign(['a', 'b', 'c', 'd', 'e'], shape)
+
+    expect(slots.assign(['a', 'c', 'd', 'e'], shape)).toEqual(['a', 'e', 'c', 'd'])
+  })
+
+  it('handles several items leaving at once, including the last tile', () => {
+    const slots = createSlotAssigner()
+    slots.assign(['a', 'b', 'c', 'd', 'e', 'f'], shape)
+
+    expect(slots.assign(['a', 'c', 'd', 'e'], shape)).toEqual(['a', 'e', 'c', 'd'])
+  })
+
+  it('appends joining items without reshuffling', () => {
+    const slots = createSlotAssigner()
+    slots.assign(['a', 'b', 'c'], shape)
+    slots.assign(['a', 'c'], shape)
+
+    expect(slots.assign(['a', 'c', 'x'], shape)).toEqual(['a', 'c', 'x'])
+  })
+
+  it('restores the natural order when the grid shape changes', () => {
+    const slots = createSlotAssigner()
+    slots.assign(['a', 'b', 'c', 'd'], shape)
+    slots.assign(['a', 'c', 'd'], shape)
+
+    expect(slots.assign(['a', 'c', 'd'], { rows: 1, cols: 3 })).toEqual(['a', 'c', 'd'])
+  })
+
+  it('starts over after reset', () => {
+    const slots = createSlotAssigner()
+    slots.assign(['a', 'b', 'c'], shape)
+    slots.assign(['a', 'c'], shape)
+    slots.reset()
+
+    expect(slots.assign(['c', 'a'], shape)).toEqual(['c', 'a'])
+  })
+})
+
+describe('assignSlots', () => {
+  it('derives the next assignment without touching the previous one', () => {
+    const previous = assignSlots(undefined, ['a', 'b', 'c', 'd'], shape)
+    const next = assignSlots(previous, ['a', 'c', 'd'], shape)
+
+    expect(next.order).toEqual(['a', 'd', 'c'])
+    expect(previous.order).toEqual(['a', 'b', 'c', 'd'])
+  })
+
+  it('returns the same order when nothing changed, so it can run on every render', () => {
+    const first = assignSlots(undefined, ['a', 'b', 'c'], shape)
+    const moved = assignSlots(first, ['b', 'c'], shape)
+
+    expect(assignSlots(moved, ['b', 'c'], shape)).toEqual(moved)
+    expect(assignSlots(moved, ['b', 'c'], { ...shape })).toEqual(moved)
+  })
+
+  it('restores the natural order when the shape changes', () => {
+    const moved = assignSlots(assignSlots(undefined, ['a', 'b', 'c'], shape), ['a', 'c'], shape)
+
+    expect(moved.order).toEqual(['a', 'c'])
+    expect(assignSlots(moved, ['c', 'a'], { rows: 1, cols: 2 }).order).toEqual(['c', 'a'])
+  })
+
+  it('matches createSlotAssigner step by step', () => {
+    const steps = [['a', 'b', 'c', 'd', 'e'], ['a', 'c', 'e'], ['a', 'c', 'e', 'f', 'g'], ['g']]
+    const slots = createSlotAssigner()
+    let assignment = assignSlots(undefined, [], shape)
+
+    for (const ids of steps) {
+      assignment = assignSlots(assignment, ids, shape)
+      expect(assignment.order).toEqual(slots.assign(ids, shape))
+    }
+  })
+})
@@ -0,0 +1,92 @@
+import { describe, expect, it } from 'vitest'
+import { createMeetGrid, type LayoutMode, type MeetGridOptions } from './index'
+
+const base: MeetGridOptions = {
+  dimensions: { width: 1280, height: 720 },
+  count: 4,
+  aspectRatio: '16:9',
+  gap: 8,
+  layoutMode: 'gallery',
+}
+
+const bounds = (grid: ReturnType<typeof createMeetGrid>, count: number) => {
+  const rects = Array.from({ length: count }, (_, i) => ({
+    ...grid.getPosition(i),
+    ...grid.getItemDimensions(i),
+  })).filter((rect) => rect.top !== -9999)
+  return {
+    top: Math.min(...rects.map((r) => r.top)),
+    left: Math.min(...rects.map((r) => r.left)),
+    bottom: Math.max(...rects.map((r) => r.top + r.height)),
+    right: Math.max(...rects.map((r) => r.left + r.width)),
+  }
+}
+
+describe('padding and gaps', () => {
+  it('keeps the gap as padding and gaps by default', () => {
+    const grid = createMeetGrid(base)
+    const explicit = createMeetGrid({ ...base, padding: 8, rowGap: 8, columnGap: 8 })
+
+    for (let i = 0; i < 4; i++) {
+      expect(explicit.getPosition(i)).toEqual(grid.getPosition(i))
+      expect(explicit.getItemDimensions(i)).toEqual(grid.getItemDimensions(i))
+    }
+  })
+
+  it('lays tiles edge to edge with zero padding', () => {
+    const grid = createMeetGrid({ ...base, gap: 4, padding: 0 })
+
+    expect(grid.height).toBe((720 - 4) / 2)
+    expect(grid.getPosition(0).top).toBe(0)
+    expect(grid.getPosition(2).top).toBe(grid.height + 4)
+    expect(bounds(grid, 4).bottom).toBe(720)
+  })
+
+  it('reserves per-edge padding, falling back to gap for unset edges', () => {
+    const grid = createMeetGrid({ ...base, padding: { bottom: 80 } })
+    const box = bounds(grid, 4)
+
+    expect(box.top).toBeGreaterThanOrEqual(8)
+    expect(box.bottom).toBeLessThanOrEqual(720 - 80)
+    expect(box.bottom - box.top).toBeCloseTo(720 - 8 - 80)
+  })
+
+  it('uses separate row and column gaps', () => {
+    const grid = createMeetGrid({ ...base, rowGap: 24, columnGap: 4 })
+
+    expect(grid.getPosition(1).left - grid.getPosition(0).left).toBeCloseTo(grid.width + 4)
+    expect(grid.getPosition(2).top - grid.getPosition(0).top).toBeCloseTo(grid.height + 24)
+  })
+
+  it.each<[LayoutMode, Partial<MeetGridOptions>]>([
+    ['gallery', { pinnedIndex: 0, count: 6 }],
+    ['spotlight', {}],
+    ['filmstrip', { dimensions: { width: 1280, height: 200 }, count: 2 }],
+    ['presentation', { contentIndices: [0], count: 5 }],
+    ['stage', { stageIndices: [1, 2, 3] }],
+    [
+      'grouped',
+      {
+        groups: [
+          { id: 'a', indices: [0, 1] },
+          { id: 'b', indices: [2, 3] },
+        ],
+      },
+    ],
+    ['template', { template: 'a b / a c', templateAreas: { a: [0], b: [1], c: [2, 3] } }],
+  ])('keeps %s tiles inside the padding', (layoutMode, extra) => {
+    const options = {
+      ...base,
+      layoutMode,
+      ...extra,
+      padding: { top: 40, right: 16, bottom: 80, left: 24 },
+    }
+    const box = bounds(createMeetGrid(options), options.count)
+    const { width, height } = options.dimensions
+
+    expect(box.top).toBeGreaterThanOrEqual(40 - 0.01)
+    expect(box.left).toBeGreaterThanOrEqual(24 - 0.01)
+    expect(box.right).toBeLessThanOrEqual(width - 16 + 0.01)
+    expect(box.bottom).toBeLessThanOrEqual(height - 80 + 0.01)
+  })
+})
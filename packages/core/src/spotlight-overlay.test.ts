@@ -0,0 +1,76 @@
+import { describe, expect, it } from 'vitest'
+import { createMeetGrid, type MeetGridOptions } from './index'
+
+const base: MeetGridOptions = {
+  dimensions: { width: 1280, height: 720 },
+  count: 5,
+  aspectRatio: '16:9',
+  gap: 8,
+  layoutMode: 'spotlight',
+  pinnedIndex: 2,
+  spotlightOverlay: true,
+}
+
+// Strip height is 18% of the container (72–160px)
+const stripH = 720 * 0.18
+const maxTileH = stripH - 16
+
+describe('spotlight overlay strip', () => {
+  it('keeps the spotlight and overlays the others on its bottom edge', () => {
+    const grid = createMeetGrid(base)
+    const plain = createMeetGrid({ ...base, spotlightOverlay: false })
+
+    expect(grid.getPosition(2)).toEqual(plain.getPosition(2))
+    expect(grid.getItemDimensions(2)).toEqual(plain.getItemDimensions(2))
+    expect(grid.isMainItem(2)).toBe(true)
+    expect(grid.overlayStrip).toEqual({
+      bounds: { top: 720 - stripH, left: 0, width: 1280, height: stripH },
+      visible: true,
+      hideDelay: 3000,
+    })
+    for (const index of [0, 1, 3, 4]) {
+      expect(grid.isItemVisible(index)).toBe(true)
+      expect(grid.getItemDimensions(index).height).toBeCloseTo(maxTileH)
+      expect(grid.getPosition(index).top).toBeCloseTo(720 - stripH + 8)
+    }
+  })
+
+  it('centres the strip tiles in order', () => {
+    const grid = createMeetGrid(base)
+    const tileW = grid.getItemDimensions(0).width
+    const rowWidth = 4 * tileW + 3 * 8
+
+    expect(grid.getPosition(0).left).toBeCloseTo((1280 - rowWidth) / 2)
+    expect(grid.getPosition(1).left).toBeCloseTo(grid.getPosition(0).left + tileW + 8)
+    expect(grid.getPosition(3).left).toBeCloseTo(grid.getPosition(1).left + tileW + 8)
+  })
+
+  it('slides the strip out once the pointer is idle for the hide delay', () => {
+    const active = createMeetGrid({ ...base, overlayIdleTime: 2999 })
+    const idle = createMeetGrid({ ...base, overlayIdleTime: 3000 })
+    const custom = createMeetGrid({ ...base, overlayIdleTime: 3000, overlayHideDelay: 5000 })
+
+    expect(active.overlayStrip!.visible).toBe(true)
+    expect(idle.overlayStrip!.visible).toBe(false)
+    expect(idle.getPosition(0).top).toBeCloseTo(active.getPosition(0).top + stripH)
+    expect(idle.getPosition(2)).toEqual(active.getPosition(2))
+    expect(custom.overlayStrip).toMatchObject({ visible: true, hideDelay: 5000 })
+  })
+
+  it('shrinks tiles to 60% and then shows a +X indicator', () => {
+    const grid = createMeetGrid({ ...base, count: 21 })
+    const others = [0, 1, 3, 4, 5, 6, 7, 8, 9]
+
+    expect(grid.getItemDimensions(0).width).toBeGreaterThanOrEqual(((maxTileH * 16) / 9) * 0.6)
+    expect(grid.hiddenCount).toBe(20 - 9 + 1)
+    expect(grid.getLastVisibleOthersIndex()).toBe(9)
+    expect(others.every((index) => grid.isItemVisible(index))).toBe(true)
+    expect(grid.isItemVisible(10)).toBe(false)
+  })
+
+  it('does nothing for a single item', () => {
+    const grid = createMeetGrid({ ...base, count: 1, pinnedIndex: 0 })
+
+    expect(grid.overlayStrip).toBeUndefined()
+  })
+})
@@ -0,0 +1,59 @@
+import { describe, expect, it } from 'vitest'
+import { createMeetGrid, type MeetGridOptions } from './index'
+
+const base: MeetGridOptions = {
+  dimensions: { width: 390, height: 844 },
+  count: 6,
+  aspectRatio: '16:9',
+  gap: 8,
+  layoutMode: 'stack',
+}
+
+// Two peeking cards, 12px apart
+const frontH = 844 - 16 - 2 * 12
+
+describe('stack layout', () => {
+  it('shows the front card full size with the next cards peeking below', () => {
+    const grid = createMeetGrid({ ...base, stackIndex: 2 })
+
+    expect(grid.stackIndex).toBe(2)
+    expect(grid.isMainItem(2)).toBe(true)
+    expect(grid.getPosition(2)).toEqual({ top: 8, left: 8 })
+    expect(grid.getItemDimensions(2)).toEqual({ width: 374, height: frontH })
+    expect(grid.getItemDimensions(3)).toEqual({ width: 374 * 0.95, height: frontH * 0.95 })
+    expect(grid.getPosition(3).top + grid.getItemDimensions(3).height).toBeCloseTo(8 + frontH + 12)
+    expect(grid.getPosition(4).top + grid.getItemDimensions(4).height).toBeCloseTo(8 + frontH + 24)
+    expect(grid.getPosition(3).left).toBeCloseTo(8 + (374 * 0.05) / 2)
+  })
+
+  it('keeps the previous card just off the left edge', () => {
+    const grid = createMeetGrid({ ...base, stackIndex: 2 })
+
+    expect(grid.getPosition(1)).toEqual({ top: 8, left: -390 })
+    expect(grid.getItemDimensions(1)).toEqual({ width: 374, height: frontH })
+    expect(grid.isItemVisible(0)).toBe(false)
+    expect(grid.isItemVisible(5)).toBe(false)
+  })
+
+  it('stacks the front card over deeper cards and under the swiped-away one', () => {
+    const grid = createMeetGrid({ ...base, stackIndex: 2 })
+    const z = (index: number) => grid.getItemZIndex!(index)
+
+    expect(z(1)).toBeGreaterThan(z(2))
+    expect(z(2)).toBeGreaterThan(z(3))
+    expect(z(3)).toBeGreaterThan(z(4))
+  })
+
+  it('follows stackPeekCount', () => {
+    const grid = createMeetGrid({ ...base, stackPeekCount: 0 })
+
+    expect(grid.getItemDimensions(0)).toEqual({ width: 374, height: 844 - 16 })
+    expect(grid.isItemVisible(1)).toBe(false)
+  })
+
+  it('clamps stackIndex to the item range', () => {
+    expect(createMeetGrid({ ...base, stackIndex: 10 }).stackIndex).toBe(5)
+    expect(createMeetGrid({ ...base, stackIndex: -3 }).stackIndex).toBe(0)
+    expect(createMeetGrid(base).stackIndex).toBe(0)
+  })
+})
@@ -0,0 +1,60 @@
+import { describe, expect, it } from 'vitest'
+import { createMeetGrid, type MeetGridOptions } from './index'
+
+const base: MeetGridOptions = {
+  dimensions: { width: 1280, height: 720 },
+  gap: 8,
+  aspectRatio: '16:9',
+  count: 100,
+  layoutMode: 'stage',
+  stageIndices: [42, 7, 19],
+}
+
+describe('stage mode', () => {
+  it('lays out only the stage members and counts the audience', () => {
+    const grid = createMeetGrid(base)
+    const visible = Array.from({ length: 100 }, (_, i) => i).filter((i) => grid.isItemVisible(i))
+
+    expect(visible).toEqual([7, 19, 42])
+    expect(grid.audienceCount).toBe(97)
+    expect(grid.hiddenCount).toBe(0)
+    expect(grid.getPosition(0)).toEqual({ top: -9999, left: -9999 })
+  })
+
+  it('keeps the order the caller gave the panelists', () => {
+    const grid = createMeetGrid(base)
+    const gallery = createMeetGrid({ ...base, layoutMode: 'gallery', count: 3, stageIndices: [] })
+
+    expect(grid.getPosition(42)).toEqual(gallery.getPosition(0))
+    expect(grid.getPosition(7)).toEqual(gallery.getPosition(1))
+    expect(grid.getPosition(19)).toEqual(gallery.getPosition(2))
+  })
+
+  it('puts two panelists side by side rather than in a PiP', () => {
+    const grid = createMeetGrid({ ...base, stageIndices: [5, 3] })
+    const [first, second] = [grid.getPosition(5), grid.getPosition(3)]
+
+    expect(grid.floatIndex).toBeUndefined()
+    expect(first.top).toBe(second.top)
+    expect(first.left).toBeLessThan(second.left)
+    expect(grid.getItemDimensions(5)).toEqual(grid.getItemDimensions(3))
+  })
+
+  it('reserves a reactions slot below the stage', () => {
+    const grid = createMeetGrid({ ...base, showReactionsSlot: true })
+    const slot = grid.reactionsSlot!
+
+    expect(slot.top + slot.height).toBeCloseTo(720 - 8)
+    for (const index of [42, 7, 19]) {
+      expect(
+        grid.getPosition(index).top + grid.getItemDimensions(index).height
+      ).toBeLessThanOrEqual(slot.top)
+    }
+  })
+
+  it('shows an empty stage when nobody is on it', () => {
+    const grid = createMeetGrid({ ...base, stageIndices: [] })
+    expect(grid.audienceCount).toBe(100)
+    expect(grid.isItemVisible(0)).toBe(false)
+  })
+})
@@ -0,0 +1,82 @@
+import { describe, expect, it } from 'vitest'
+import { createMeetGrid, type MeetGridOptions } from './index'
+
+const base: MeetGridOptions = {
+  dimensions: { width: 1280, height: 720 },
+  count: 10,
+  aspectRatio: '16:9',
+  gap: 8,
+  layoutMode: 'gallery',
+  maxItemsPerPage: 4,
+}
+
+describe('stickyIndices', () => {
+  it('leads every page with the sticky items', () => {
+    const first = createMeetGrid({ ...base, stickyIndices: [7], currentPage: 0 })
+    const second = createMeetGrid({ ...base, stickyIndices: [7], currentPage: 1 })
+
+    expect(first.pagination.pageIndices).toEqual([7, 0, 1, 2])
+    expect(second.pagination.pageIndices).toEqual([7, 3, 4, 5])
+    expect(second.getPosition(7)).toEqual(first.getPosition(7))
+  })
+
+  it('paginates the other items over the remaining slots', () => {
+    const grid = createMeetGrid({ ...base, stickyIndices: [0, 9] })
+
+    // 8 others, 2 per page
+    expect(grid.pagination.totalPages).toBe(4)
+    expect(grid.pagination.itemsOnPage).toBe(4)
+    expect(grid.pagination.pageIndices).toEqual([0, 9, 1, 2])
+  })
+
+  it('places sticky items in the leading slots', () => {
+    const grid = createMeetGrid({ ...base, stickyIndices: [5], currentPage: 1 })
+    const plain = createMeetGrid({ ...base, count: 4, maxItemsPerPage: undefined })
+
+    expect(grid.getPosition(5)).toEqual(plain.getPosition(0))
+    expect(grid.getPosition(3)).toEqual(plain.getPosition(1))
+    expect(grid.isItemVisible(0)).toBe(false)
+    expect(grid.getPosition(0)).toEqual({ top: -9999, left: -9999 })
+  })
+
+  it('never puts more than maxItemsPerPage items on a page', () => {
+    const stickyIndices = [9, 0, 1, 2, 3]
+    const pages = Array.from({ length: 7 }, (_, currentPage) =>
+      createMeetGrid({ ...base, stickyIndices, currentPage })
+    )
+
+    // 9, 0 and 1 stick; 2 and 3 are paginated with the others
+    expect(pages[0].pagination.totalPages).toBe(7)
+    expect(pages[0].pagination.pageIndices).toEqual([9, 0, 1, 2])
+    expect(pages[1].pagination.pageIndices).toEqual([9, 0, 1, 3])
+    for (const page of pages) {
+      expect(page.pagination.itemsOnPage).toBeLessThanOrEqual(4)
+      expect(page.pagination.pageIndices!.slice(0, 3)).toEqual([9, 0, 1])
+    }
+    const shown = new Set(pages.flatMap((page) => page.pagination.pageIndices!))
+    expect(shown.size).toBe(10)
+  })
+
+  it('paginates sticky items like the rest with one item per page', () => {
+    const grid = createMeetGrid({ ...base, maxItemsPerPage: 1, stickyIndices: [5], currentPage: 5 })
+
+    expect(grid.pagination.totalPages).toBe(10)
+    expect(grid.pagination.startIndex).toBe(5)
+    expect(grid.isItemVisible(5)).toBe(true)
+    expect(grid.isItemVisible(0)).toBe(false)
+  })
+
+  it('shows every item without pagination when all of them fit', () => {
+    const grid = createMeetGrid({ ...base, count: 4, stickyIndices: [0, 1, 2, 3] })
+
+    expect(grid.pagination.enabled).toBe(false)
+    expect(grid.pagination.pageIndices).toEqual([0, 1, 2, 3])
+  })
+
+  it('ignores duplicate and out-of-range sticky indices', () => {
+    const grid = createMeetGrid({ ...base, stickyIndices: [2, 2, -1, 42] })
+
+    expect(grid.pagination.pageIndices).toEqual([2, 0, 1, 3])
+    expect(grid.pagination.totalPages).toBe(3)
+  })
+})
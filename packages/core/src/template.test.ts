@@ -0,0 +1,130 @@
+import { describe, expect, it } from 'vitest'
+import { createMeetGrid, parseLayoutTemplate, type MeetGridOptions } from './index'
+
+const base: MeetGridOptions = {
+  dimensions: { width: 1280, height: 720 },
+  count: 6,
+  aspectRatio: '16:9',
+  gap: 8,
+  layoutMode: 'template',
+  template: 'a a b / a a c / d d d',
+}
+
+// Track sizes for the 3×3 template above
+const colW = (1264 - 16) / 3
+const rowH = (704 - 16) / 3
+
+const rect = (grid: ReturnType<typeof createMeetGrid>, index: number) => ({
+  ...grid.getPosition(index),
+  ...grid.getItemDimensions(index),
+})
+
+describe('parseLayoutTemplate', () => {
+  it('resolves named areas from a string', () => {
+    const parsed = parseLayoutTemplate('a a b / a a c / d d d')
+
+    expect(parsed.rows).toBe(3)
+    expect(parsed.cols).toBe(3)
+    expect(parsed.rowSizes).toEqual([1, 1, 1])
+    expect(parsed.areas).toEqual([
+      { name: 'a', row: 0, col: 0, rowSpan: 2, colSpan: 2 },
+      { name: 'b', row: 0, col: 2, rowSpan: 1, colSpan: 1 },
+      { name: 'c', row: 1, col: 2, rowSpan: 1, colSpan: 1 },
+      { name: 'd', row: 2, col: 0, rowSpan: 1, colSpan: 3 },
+    ])
+  })
+
+  it('accepts the object form with fr sizes and empty cells', () => {
+    const parsed = parseLayoutTemplate({
+      areas: [
+        ['main', '.'],
+        ['main', 'side'],
+      ],
+      rows: [2, 1],
+      columns: [3, 1],
+    })
+
+    expect(parsed.rowSizes).toEqual([2, 1])
+    expect(parsed.colSizes).toEqual([3, 1])
+    expect(parsed.areas.map((area) => area.name)).toEqual(['main', 'side'])
+  })
+
+  it('rejects ragged rows and non-rectangular areas', () => {
+    expect(() => parseLayoutTemplate('a a / b')).toThrow('every row must have the same')
+    expect(() => parseLayoutTemplate('a a / a b')).toThrow('area "a" is not rectangular')
+    expect(() => parseLayoutTemplate('a b a')).toThrow('area "a" is not rectangular')
+  })
+})
+
+describe('template layout', () => {
+  it('fills an area with its single item', () => {
+    const grid = createMeetGrid({ ...base, templateAreas: { a: [0], b: [1] } })
+
+    expect(rect(grid, 0)).toEqual({
+      top: 8,
+      left: 8,
+      width: 2 * colW + 8,
+      height: 2 * rowH + 8,
+    })
+    expect(rect(grid, 1)).toEqual({ top: 8, left: 8 + 2 * (colW + 8), width: colW, height: rowH })
+  })
+
+  it('splits an area between a few items along its cell rows', () => {
+    const grid = createMeetGrid({ ...base, templateAreas: { a: [0, 1] } })
+
+    expect(rect(grid, 0).width).toBeCloseTo(2 * colW + 8)
+    expect(rect(grid, 0).height).toBeCloseTo(rowH)
+    expect(rect(grid, 1).top).toBeCloseTo(8 + rowH + 8)
+  })
+
+  it('runs a gallery inside an area with more items than cells', () => {
+    const grid = createMeetGrid({ ...base, templateAreas: { d: [0, 1, 2, 3, 4] } })
+
+    for (let i = 0; i < 5; i++) {
+      const r = rect(grid, i)
+      expect(r.top).toBeGreaterThanOrEqual(8 + 2 * (rowH + 8) - 0.01)
+      expect(r.width).toBeCloseTo(rect(grid, 0).width)
+    }
+  })
+
+  it('assigns remaining items by role after templateAreas', () => {
+    const grid = createMeetGrid({
+      ...base,
+      templateAreas: { b: [0] },
+      itemRoles: ['a', 'a', 'c', 'nowhere'],
+    })
+
+    expect(rect(grid, 0).width).toBe(colW)
+    expect(rect(grid, 1)).toEqual({ top: 8, left: 8, width: 2 * colW + 8, height: 2 * rowH + 8 })
+    expect(rect(grid, 2).top).toBeCloseTo(8 + rowH + 8)
+    expect(grid.isItemVisible(3)).toBe(false)
+  })
+
+  it('hides unassigned items and marks the largest filled area as main', () => {
+    const grid = createMeetGrid({ ...base, templateAreas: { a: [2], d: [0, 1] } })
+
+    expect(grid.isMainItem(2)).toBe(true)
+    expect(grid.isMainItem(0)).toBe(false)
+    expect(grid.isItemVisible(5)).toBe(false)
+    expect(grid.getPosition(5)).toEqual({ top: -9999, left: -9999 })
+    expect(grid.pagination.itemsOnPage).toBe(3)
+  })
+
+  it('sizes tracks by their fr values', () => {
+    const grid = createMeetGrid({
+      ...base,
+      template: { areas: [['main', 'side']], columns: [3, 1] },
+      templateAreas: { main: [0], side: [1] },
+    })
+
+    expect(rect(grid, 0).width / rect(grid, 1).width).toBeCloseTo(3)
+  })
+
+  it('falls back to the gallery without a template', () => {
+    const grid = createMeetGrid({ ...base, template: undefined })
+    const gallery = createMeetGrid({ ...base, layoutMode: 'gallery' })
+
+    expect(grid.layoutMode).toBe('template')
+    expect(rect(grid, 3)).toEqual(rect(gallery, 3))
+  })
+})
@@ -0,0 +1,82 @@
+import { describe, expect, it } from 'vitest'
+import { createMeetGrid, type MeetGridOptions } from './index'
+
+const base: MeetGridOptions = {
+  dimensions: { width: 1280, height: 720 },
+  count: 4,
+  aspectRatio: '16:9',
+  gap: 8,
+  layoutMode: 'gallery',
+  tileChrome: { bottom: 28 },
+}
+
+describe('tileChrome', () => {
+  it('applies the aspect ratio to the video area and grows the cell by the chrome', () => {
+    const grid = createMeetGrid(base)
+    const cell = grid.getItemDimensions(0)
+    const video = grid.getItemContentDimensions(0)
+
+    expect(cell.height).toBeCloseTo(video.height + 28)
+    expect(video.width).toBeCloseTo(cell.width)
+    expect(video.width / video.height).toBeCloseTo(16 / 9)
+    expect(video.offsetTop).toBeCloseTo(0)
+    expect(video.offsetLeft).toBeCloseTo(0)
+  })
+
+  it('keeps the gap between cells and inside the container', () => {
+    const grid = createMeetGrid(base)
+
+    expect(grid.getPosition(2).top - grid.getPosition(0).top).toBeCloseTo(grid.height + 8)
+    expect(grid.getPosition(1).left - grid.getPosition(0).left).toBeCloseTo(grid.width + 8)
+    expect(grid.getPosition(0).top).toBeGreaterThanOrEqual(8)
+    expect(grid.getPosition(3).top + grid.height).toBeLessThanOrEqual(712 + 0.01)
+  })
+
+  it('offsets the video by the top and left chrome', () => {
+    const grid = createMeetGrid({ ...base, tileChrome: { top: 10, left: 6, right: 6, bottom: 28 } })
+    const video = grid.getItemContentDimensions(0)
+
+    expect(video.offsetTop).toBeCloseTo(10)
+    expect(video.offsetLeft).toBeCloseTo(6)
+    expect(grid.getItemDimensions(0).width).toBeCloseTo(video.width + 12)
+  })
+
+  it('fits other item ratios inside the video area', () => {
+    const grid = createMeetGrid(base)
+    const cell = grid.getItemDimensions(0)
+    const portrait = grid.getItemContentDimensions(0, '9:16')
+
+    expect(portrait.height).toBeCloseTo(cell.height - 28)
+    expect(portrait.offsetLeft).toBeCloseTo((cell.width - portrait.width) / 2)
+  })
+
+  it('applies to other layout modes', () => {
+    const grid = createMeetGrid({ ...base, layoutMode: 'spotlight', pinnedIndex: 1 })
+    const video = grid.getItemContentDimensions(1)
+
+    expect(grid.getItemDimensions(1).height).toBeCloseTo(video.height + 28)
+    expect(video.width / video.height).toBeCloseTo(16 / 9)
+    expect(grid.getPosition(1).top + grid.getItemDimensions(1).height).toBeLessThanOrEqual(
+      712 + 0.01
+    )
+  })
+
+  it('keeps floating items at their size and reserves the chrome inside them', () => {
+    const grid = createMeetGrid({ ...base, floatIndices: [3] })
+    const plain = createMeetGrid({ ...base, floatIndices: [3], tileChrome: undefined })
+
+    expect(grid.getItemDimensions(3)).toEqual(plain.getItemDimensions(3))
+    expect(grid.getItemContentDimensions(3).height).toBeLessThanOrEqual(
+      grid.getItemDimensions(3).height - 28 + 0.01
+    )
+  })
+
+  it('gives freeform items without a stored rect a whole gallery cell', () => {
+    const grid = createMeetGrid({ ...base, layoutMode: 'freeform' })
+    const gallery = createMeetGrid(base)
+
+    expect(grid.getPosition(2)).toEqual(gallery.getPosition(2))
+    expect(grid.getItemDimensions(2).width).toBeCloseTo(gallery.getItemDimensions(2).width)
+    expect(grid.getItemDimensions(2).height).toBeCloseTo(gallery.getItemDimensions(2).height)
+  })
+})
@@ -0,0 +1,125 @@
+import { describe, expect, it } from 'vitest'
+import { createMeetGrid, type MeetGridOptions, type MeetGridResult } from './index'
+
+const base: MeetGridOptions = {
+  dimensions: { width: 1280, height: 720 },
+  count: 60,
+  aspectRatio: '16:9',
+  gap: 8,
+  layoutMode: 'gallery',
+}
+const minTileSize = { width: 240, height: 135 }
+const maxTileSize = { width: 480, height: 270 }
+
+const visibleTiles = (grid: MeetGridResult, count: number) =>
+  Array.from({ length: count }, (_, i) => i).filter(
+    (i) => grid.isItemVisible(i) && !grid.isMainItem(i)
+  )
+
+describe('minTileSize', () => {
+  it('overflows the uniform gallery into hiddenCount instead of shrinking', () => {
+    const grid = createMeetGrid({ ...base, minTileSize })
+    const visible = visibleTiles(grid, 60)
+
+    expect(grid.width).toBeGreaterThanOrEqual(240)
+    expect(grid.height).toBeGreaterThanOrEqual(135)
+    expect(grid.hiddenCount).toBe(60 - visible.length + 1)
+    expect(createMeetGrid({ ...base, count: visible.length + 1 }).width).toBeLessThan(240)
+  })
+
+  it('moves the overflow onto further pages when paginating', () => {
+    const grid = createMeetGrid({ ...base, minTileSize, maxItemsPerPage: 49 })
+
+    expect(grid.pagination.itemsOnPage).toBeLessThan(49)
+    expect(grid.pagination.totalPages).toBe(Math.ceil(60 / grid.pagination.itemsOnPage))
+    expect(grid.width).toBeGreaterThanOrEqual(240)
+  })
+
+  it('applies to the justified gallery', () => {
+    const itemAspectRatios = Array.from({ length: 60 }, (_, i) => (i % 2 ? '9:16' : '16:9'))
+    const grid = createMeetGrid({ ...base, itemAspectRatios, minTileSize })
+    const visible = visibleTiles(grid, 60)
+
+    expect(grid.hiddenCount).toBeGreaterThan(0)
+    for (const i of visible) {
+      expect(grid.getItemDimensions(i).width).toBeGreaterThanOrEqual(240)
+      expect(grid.getItemDimensions(i).height).toBeGreaterThanOrEqual(135)
+    }
+  })
+
+  it('applies to the pin layout thumbnails but not the pinned item', () => {
+    const grid = createMeetGrid({ ...base, pinnedIndex: 0, minTileSize })
+    const visible = visibleTiles(grid, 60)
+
+    expect(grid.isItemVisible(0)).toBe(true)
+    expect(grid.hiddenCount).toBeGreaterThan(0)
+    for (const i of visible) {
+      expect(grid.getItemDimensions(i).width).toBeGreaterThanOrEqual(240)
+    }
+  })
+
+  it('stops at the first pin limit whose thumbnails would shrink below the minimum', () => {
+    const options: MeetGridOptions = { ...base, count: 2000, pinnedIndex: 0, minTileSize }
+    const grid = createMeetGrid(options)
+    const shown = grid.getLastVisibleOthersIndex() + 1
+    const tooMany = createMeetGrid({ ...options, minTileSize: undefined, maxVisible: shown + 1 })
+    const smallest = Math.min(
+      ...visibleTiles(tooMany, 2000).map((i) => tooMany.getItemDimensions(i).width)
+    )
+
+    expect(grid.hiddenCount).toBe(2000 - shown + 1)
+    for (const i of visibleTiles(grid, 2000)) {
+      expect(grid.getItemDimensions(i).width).toBeGreaterThanOrEqual(240)
+    }
+    expect(smallest).toBeLessThan(240)
+  })
+
+  it('keeps the page limit when every tile already fits', () => {
+    const grid = createMeetGrid({ ...base, count: 4, minTileSize, maxItemsPerPage: 2 })
+    expect(grid.pagination.itemsOnPage).toBe(2)
+  })
+
+  it('leaves layouts alone when unset', () => {
+    expect(createMeetGrid(base).hiddenCount).toBe(0)
+  })
+})
+
+describe('maxTileSize', () => {
+  const wide: MeetGridOptions = {
+    ...base,
+    dimensions: { width: 3440, height: 1440 },
+    count: 3,
+    maxTileSize,
+  }
+
+  it('caps uniform tiles and centres them in the space they would have used', () => {
+    const grid = createMeetGrid(wide)
+    const uncapped = createMeetGrid({ ...wide, maxTileSize: undefined })
+
+    expect(grid.width).toBeLessThanOrEqual(480)
+    expect(grid.height).toBeLessThanOrEqual(270)
+    expect(grid.width / grid.height).toBeCloseTo(16 / 9)
+    expect(grid.rows).toBe(uncapped.rows)
+    const left = grid.getPosition(0).left
+    const right = grid.getPosition(1).left + grid.width
+    expect(left + right).toBeCloseTo(3440)
+  })
+
+  it('caps justified gallery tiles', () => {
+    const grid = createMeetGrid({ ...wide, itemAspectRatios: ['16:9', '9:16', '4:3'] })
+
+    for (let i = 0; i < 3; i++) {
+      const { width, height } = grid.getItemDimensions(i)
+      expect(width).toBeLessThanOrEqual(480 + 0.01)
+      expect(height).toBeLessThanOrEqual(270 + 0.01)
+    }
+  })
+
+  it('caps pin thumbnails but not the pinned item', () => {
+    const grid = createMeetGrid({ ...wide, pinnedIndex: 0 })
+
+    expect(grid.getItemDimensions(0).width).toBeGreaterThan(480)
+    expect(grid.getItemDimensions(1).width).toBeLessThanOrEqual(480 + 0.01)
+    expect(grid.getItemDimensions(1).height).toBeLessThanOrEqual(270 + 0.01)
+  })
+})
@@ -0,0 +1,121 @@
+import { describe, expect, it } from 'vitest'
+import { createMeetGrid, type MeetGridOptions } from './index'
+
+const base: MeetGridOptions = {
+  dimensions: { width: 1280, height: 720 },
+  count: 2,
+  aspectRatio: '16:9',
+  gap: 8,
+  layoutMode: 'gallery',
+}
+
+describe('two-person layout', () => {
+  it('fills the container with the first item and floats the second by default', () => {
+    const grid = createMeetGrid(base)
+
+    expect(grid.floatIndex).toBe(1)
+    expect(grid.isMainItem(0)).toBe(true)
+    expect(grid.getPosition(0)).toEqual({ top: 0, left: 0 })
+    expect(grid.getItemDimensions(0)).toEqual({ width: 1280, height: 720 })
+    expect(grid.getItemDimensions(1)).toEqual(grid.floatDimensions)
+    expect(grid.floatItems).toHaveLength(1)
+  })
+
+  it('floats the item given by twoPersonFloatIndex', () => {
+    const grid = createMeetGrid({ ...base, twoPersonFloatIndex: 0 })
+
+    expect(grid.floatIndex).toBe(0)
+    expect(grid.isMainItem(1)).toBe(true)
+  })
+
+  it('swaps the main and floating items without re-ordering', () => {
+    const swapped = createMeetGrid({ ...base, twoPersonSwap: true })
+    const swappedBack = createMeetGrid({ ...base, twoPersonFloatIndex: 0, twoPersonSwap: true })
+
+    expect(swapped.floatIndex).toBe(0)
+    expect(swapped.getPosition(1)).toEqual({ top: 0, left: 0 })
+    expect(swappedBack.floatIndex).toBe(1)
+  })
+
+  it('insets the main item by gap when not edge-to-edge', () => {
+    const grid = createMeetGrid({ ...base, twoPersonEdgeToEdge: false })
+
+    expect(grid.getPosition(0)).toEqual({ top: 8, left: 8 })
+    expect(grid.getItemDimensions(0)).toEqual({ width: 1264, height: 704 })
+  })
+
+  it('lays both items side by side with twoPersonLayout gallery', () => {
+    const grid = createMeetGrid({ ...base, twoPersonLayout: 'gallery' })
+
+    expect(grid.floatIndex).toBeUndefined()
+    expect(grid.cols).toBe(2)
+    expect(grid.getItemDimensions(0)).toEqual(grid.getItemDimensions(1))
+    expect(grid.getPosition(1).left).toBeGreaterThan(grid.getPosition(0).left)
+  })
+
+  describe('with padding and tileChrome', () => {
+    const padding = { top: 10, right: 20, bottom: 30, left: 40 }
+    const chrome = { top: 4, bottom: 28 }
+
+    it('stays edge-to-edge with padding', () => {
+      const grid = createMeetGrid({ ...base, padding })
+
+      expect(grid.getPosition(0)).toEqual({ top: 0, left: 0 })
+      expect(grid.getItemDimensions(0)).toEqual({ width: 1280, height: 720 })
+    })
+
+    it('insets the main item by the padding on each side when not edge-to-edge', () => {
+      const grid = createMeetGrid({ ...base, padding, twoPersonEdgeToEdge: false })
+
+      expect(grid.getPosition(0)).toEqual({ top: 10, left: 40 })
+      expect(grid.getItemDimensions(0)).toEqual({ width: 1280 - 60, height: 720 - 40 })
+      expect(grid.floatIndex).toBe(1)
+    })
+
+    it('insets by padding even when gap is 0', () => {
+      const grid = createMeetGrid({ ...base, gap: 0, padding: 12, twoPersonEdgeToEdge: false })
+      expect(grid.getPosition(0)).toEqual({ top: 12, left: 12 })
+    })
+
+    it('stays edge-to-edge with tileChrome and reserves the chrome inside the tile', () => {
+      const grid = createMeetGrid({ ...base, aspectRatio: '16:10', tileChrome: chrome })
+      const content = grid.getItemContentDimensions(0)
+
+      expect(grid.getPosition(0)).toEqual({ top: 0, left: 0 })
+      expect(grid.getItemDimensions(0)).toEqual({ width: 1280, height: 720 })
+      expect(content.offsetTop).toBeGreaterThanOrEqual(4)
+      expect(content.offsetTop + content.height).toBeLessThanOrEqual(720 - 28 + 1e-6)
+      expect(content.width / content.height).toBeCloseTo(16 / 10)
+    })
+
+    it('insets by gap, not by gap plus chrome, with tileChrome when not edge-to-edge', () => {
+      const grid = createMeetGrid({ ...base, tileChrome: chrome, twoPersonEdgeToEdge: false })
+
+      expect(grid.getPosition(0)).toEqual({ top: 8, left: 8 })
+      expect(grid.getItemDimensions(0)).toEqual({ width: 1264, height: 704 })
+    })
+
+    it('reserves the chrome inside the floating item', () => {
+      const grid = createMeetGrid({ ...base, tileChrome: chrome })
+      const float = grid.getItemDimensions(1)
+      const content = grid.getItemContentDimensions(1)
+
+      expect(float).toEqual(grid.floatDimensions)
+      expect(content.offsetTop).toBeGreaterThanOrEqual(4)
+      expect(content.height).toBeLessThanOrEqual(float.height - 32)
+    })
+
+    it('keeps padding and chrome for the side-by-side gallery', () => {
+      const grid = createMeetGrid({
+        ...base,
+        padding,
+        tileChrome: chrome,
+        twoPersonLayout: 'gallery',
+      })
+
+      expect(grid.getPosition(0).left).toBeGreaterThanOrEqual(40)
+      expect(grid.getPosition(0).top).toBeGreaterThanOrEqual(10)
+      expect(grid.getItemContentDimensions(0).offsetTop).toBe(4)
+    })
+  })
+})
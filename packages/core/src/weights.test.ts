@@ -0,0 +1,192 @@
+import { describe, expect, it } from 'vitest'
+import { createMeetGrid, type MeetGridOptions } from './index'
+
+const base: MeetGridOptions = {
+  dimensions: { width: 1280, height: 720 },
+  gap: 8,
+  aspectRatio: '16:9',
+  count: 8,
+  weights: [1, 2],
+}
+
+type Rect = { top: number; left: number; width: number; height: number }
+const rectOf = (grid: ReturnType<typeof createMeetGrid>, index: number): Rect => ({
+  ...grid.getPosition(index),
+  ...grid.getItemDimensions(index),
+})
+const overlaps = (a: Rect, b: Rect) =>
+  Math.min(a.left + a.width, b.left + b.width) - Math.max(a.left, b.left) > 1e-6 &&
+  Math.min(a.top + a.height, b.top + b.height) - Math.max(a.top, b.top) > 1e-6
+
+describe('weights', () => {
+  it('spans a weight-2 item over a 2×2 block of cells', () => {
+    const grid = createMeetGrid(base)
+    const { width, height } = grid.getItemDimensions(1)
+
+    expect(width).toBeCloseTo(2 * grid.width + 8)
+    expect(height).toBeCloseTo(2 * grid.height + 8)
+    expect(grid.getItemDimensions(0)).toEqual({ width: grid.width, height: grid.height })
+    expect(grid.isMainItem(1)).toBe(true)
+    expect(grid.isMainItem(0)).toBe(false)
+  })
+
+  it('flows the other tiles around the weighted ones without overlap', () => {
+    const grid = createMeetGrid({ ...base, count: 20, weights: [2, 1, 1, 3, 1, 2] })
+    const rects = Array.from({ length: 20 }, (_, i) => rectOf(grid, i))
+
+    for (let a = 0; a < rects.length; a++) {
+      const { top, left, width, height } = rects[a]
+      expect(top).toBeGreaterThanOrEqual(8 - 1e-6)
+      expect(left).toBeGreaterThanOrEqual(8 - 1e-6)
+      expect(top + height).toBeLessThanOrEqual(720 - 8 + 1e-6)
+      expect(left + width).toBeLessThanOrEqual(1280 - 8 + 1e-6)
+      for (let b = a + 1; b < rects.length; b++) expect(overlaps(rects[a], rects[b])).toBe(false)
+    }
+  })
+
+  it('paginates like the uniform gallery', () => {
+    const grid = createMeetGrid({ ...base, maxItemsPerPage: 3, currentPage: 1 })
+
+    expect(grid.pagination).toMatchObject({ enabled: true, currentPage: 1, totalPages: 3 })
+    expect([0, 1, 2, 3, 4, 5, 6, 7].filter((i) => grid.isItemVisible(i))).toEqual([3, 4, 5])
+    expect(grid.isMainItem(1)).toBe(false)
+    expect(grid.getPosition(1)).toEqual({ top: -9999, left: -9999 })
+  })
+
+  it('keeps a weighted sticky item on every page', () => {
+    const options: MeetGridOptions = { ...base, maxItemsPerPage: 4, stickyIndices: [1] }
+    const pages = [0, 1, 2].map((currentPage) => createMeetGrid({ ...options, currentPage }))
+
+    expect(pages.map((page) => page.pagination.pageIndices)).toEqual([
+      [1, 0, 2, 3],
+      [1, 4, 5, 6],
+      [1, 7],
+    ])
+    expect(pages[1].pagination.totalPages).toBe(3)
+    expect(pages[1].isMainItem(1)).toBe(true)
+    expect(pages[1].getItemDimensions(1).width).toBeCloseTo(2 * pages[1].width + 8)
+    // The sticky item leads the page, so it takes the first block
+    expect(pages[1].getPosition(1).top).toBeLessThanOrEqual(pages[1].getPosition(4).top)
+  })
+
+  it('only treats items that still span several cells as main items', () => {
+    const rounded = createMeetGrid({ ...base, weights: [1, 1.4, 2] })
+    const narrow = createMeetGrid({
+      ...base,
+      dimensions: { width: 300, height: 1000 },
+      count: 3,
+      weights: [1, 2, 1],
+    })
+
+    expect(rounded.isMainItem(1)).toBe(false)
+    expect(rounded.getItemDimensions(1)).toEqual(rounded.getItemDimensions(0))
+    expect(rounded.isMainItem(2)).toBe(true)
+    // A single column clamps the block to one cell
+    expect(narrow.cols).toBe(1)
+    expect(narrow.isMainItem(1)).toBe(false)
+    expect(narrow.getItemDimensions(1)).toEqual(narrow.getItemDimensions(0))
+  })
+
+  it('caps the single cells at maxTileSize and keeps the mosaic centred', () => {
+    const grid = createMeetGrid({ ...base, maxTileSize: { width: 160, height: 90 } })
+    const rects = Array.from({ length: 8 }, (_, i) => rectOf(grid, i))
+    const left = Math.min(...rects.map((r) => r.left))
+    const right = Math.max(...rects.map((r) => r.left + r.width))
+    const top = Math.min(...rects.map((r) => r.top))
+    const bottom = Math.max(...rects.map((r) => r.top + r.height))
+
+    expect(grid.getItemDimensions(0)).toEqual({ width: 160, height: 90 })
+    expect(grid.getItemDimensions(1)).toEqual({ width: 2 * 160 + 8, height: 2 * 90 + 8 })
+    expect(left - 8).toBeCloseTo(1272 - right)
+    expect(top - 8).toBeCloseTo(712 - bottom)
+  })
+
+  it('shows fewer items rather than shrinking the cells below minTileSize', () => {
+    const minTileSize = { width: 200, height: 112.5 }
+    const grid = createMeetGrid({ ...base, count: 40, minTileSize })
+    const visible = Array.from({ length: 40 }, (_, i) => i).filter((i) => grid.isItemVisible(i))
+
+    expect(grid.hiddenCount).toBe(40 - visible.length + 1)
+    expect(grid.getLastVisibleOthersIndex()).toBe(visible[visible.length - 1])
+    expect(grid.width).toBeGreaterThanOrEqual(200)
+    expect(grid.isMainItem(1)).toBe(true)
+
+    const paged = createMeetGrid({ ...base, count: 40, minTileSize, maxItemsPerPage: 40 })
+    expect(paged.pagination.totalPages).toBeGreaterThan(1)
+    expect(paged.width).toBeGreaterThanOrEqual(200)
+  })
+
+  describe('lastRowAlign', () => {
+    // Item 1 spans rows 0-1; items 5 and 6 form an incomplete row of single tiles below it
+    const tail: MeetGridOptions = { ...base, count: 7 }
+    const edges = (grid: ReturnType<typeof createMeetGrid>) => ({
+      gridLeft: grid.getPosition(0).left,
+      gridRight: grid.getPosition(4).left + grid.width,
+      rowLeft: grid.getPosition(5).left,
+      rowRight: grid.getPosition(6).left + grid.getItemDimensions(6).width,
+    })
+
+    it('centres the last row of single tiles by default', () => {
+      const { gridLeft, gridRight, rowLeft, rowRight } = edges(createMeetGrid(tail))
+      expect(rowLeft - gridLeft).toBeCloseTo(gridRight - rowRight)
+      expect(rowLeft).toBeGreaterThan(gridLeft)
+    })
+
+    it("aligns it with the first or last column for 'start' and 'end'", () => {
+      const start = edges(createMeetGrid({ ...tail, lastRowAlign: 'start' }))
+      const end = edges(createMeetGrid({ ...tail, lastRowAlign: 'end' }))
+
+      expect(start.rowLeft).toBeCloseTo(start.gridLeft)
+      expect(end.rowRight).toBeCloseTo(end.gridRight)
+    })
+
+    it("stretches it over the grid width for 'stretch'", () => {
+      const grid = createMeetGrid({ ...tail, lastRowAlign: 'stretch' })
+      const { gridLeft, gridRight, rowLeft, rowRight } = edges(grid)
+
+      expect(rowLeft).toBeCloseTo(gridLeft)
+      expect(rowRight).toBeCloseTo(gridRight)
+      expect(grid.getItemDimensions(5).height).toBe(grid.height)
+    })
+
+    it("balances the rows below the blocks for 'spread'", () => {
+      const plain = createMeetGrid({ ...base, count: 18 })
+      const grid = createMeetGrid({ ...base, count: 18, lastRowAlign: 'spread' })
+      const rowLengths = (result: typeof grid) => {
+        const tops = new Map<number, number>()
+        for (let i = 7; i < 18; i++) {
+          const { top } = result.getPosition(i)
+          tops.set(top, (tops.get(top) ?? 0) + 1)
+        }
+        return [...tops.values()]
+      }
+
+      expect(rowLengths(plain)).toEqual([5, 5, 1])
+      expect(rowLengths(grid)).toEqual([4, 4, 3])
+      expect(grid.rows).toBe(plain.rows)
+    })
+  })
+
+  it('reports the last visible item for the "+N" indicator', () => {
+    const grid = createMeetGrid({ ...base, maxVisible: 5 })
+
+    expect(grid.hiddenCount).toBe(4)
+    expect(grid.getLastVisibleOthersIndex()).toBe(4)
+    expect(grid.isItemVisible(5)).toBe(false)
+  })
+
+  it('lays out hundreds of weighted items', () => {
+    const count = 300
+    const weights = Array.from({ length: count }, (_, i) => (i % 17 === 0 ? 2 : 1))
+    const grid = createMeetGrid({
+      ...base,
+      dimensions: { width: 1920, height: 1080 },
+      count,
+      weights,
+    })
+    const last = rectOf(grid, count - 1)
+
+    expect(grid.width).toBeGreaterThan(0)
+    expect(last.top + last.height).toBeLessThanOrEqual(1080 - 8 + 1e-6)
+  })
+})
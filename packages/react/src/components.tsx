@@ -1,5 +1,13 @@
 import React, { ReactNode, useRef, forwardRef, HTMLAttributes, CSSProperties } from 'react'
-import { motion, HTMLMotionProps, Transition, useMotionValue, animate } from 'motion/react'
+import {
+  motion,
+  HTMLMotionProps,
+  Transition,
+  useMotionValue,
+  useDragControls,
+  animate,
+  PanInfo,
+} from 'motion/react'
 import {
   MeetGridOptions,
   LayoutMode,
@@ -7,6 +15,28 @@ import {
   getSpringConfig,
   ItemAspectRatio,
   ContentDimensions,
+  GridGroup,
+  LayoutTemplate,
+  PipBreakpoint,
+  resolveFloatSize,
+  FreeformLayoutState,
+  GridRect,
+  GridDimensions,
+  GridPadding,
+  LastRowAlign,
+  Bubble,
+  LayoutScene,
+  SlotAssignment,
+  SelfViewMode,
+  FloatAnchor,
+  FloatItem,
+  getFloatPositions,
+  getNearestFloatAnchor,
+  assignSlots,
+  getGridItemDimensions,
+  createFreeformLayout,
+  updateFreeformItem,
+  snapFreeformRect,
 } from '@thangdevalone/meeting-grid-layout-core'
 import { useGridDimensions, useMeetGrid, GridContext, useGridContext } from './hooks'
 
@@ -21,12 +51,25 @@ export interface GridContainerProps extends Omit<HTMLAttributes<HTMLDivElement>,
   aspectRatio?: string
   /** Gap between items in pixels */
   gap?: number
+  /** Outer padding, for every edge or per edge (defaults to gap) */
+  padding?: number | Partial<GridPadding>
+  /** Vertical gap between rows of tiles (defaults to gap) */
+  rowGap?: number
+  /** Horizontal gap between columns of tiles (defaults to gap) */
+  columnGap?: number
+  /**
+   * Layout of an incomplete last row in the gallery and pin thumbnails
+   * @default 'center'
+   */
+  lastRowAlign?: LastRowAlign
   /** Number of items (if not using GridItem children) */
   count?: number
   /** Layout mode */
   layoutMode?: LayoutMode
   /** Index of pinned/focused item (main participant for pin/spotlight modes) */
   pinnedIndex?: number
+  /** Indices of multiple pinned items sharing the main area (takes precedence over pinnedIndex) */
+  pinnedIndices?: number[]
   /**
    * Position of "others" thumbnails when a participant is pinned.
    * In portrait containers, this is forced to 'bottom'.
@@ -43,6 +86,10 @@ export interface GridContainerProps extends Omit<HTMLAttributes<HTMLDivElement>,
   maxItemsPerPage?: number
   /** Current page index (0-based) for pagination */
   currentPage?: number
+  /** Derive items per page from the container size and minTileSize instead of maxItemsPerPage */
+  autoPageSize?: boolean
+  /** Items that occupy a slot on every page (e.g. self-view, host) when paginating */
+  stickyIndices?: number[]
   /** Maximum visible items (0 = show all). In gallery mode without pin: limits all items. With pin: limits "others". */
   maxVisible?: number
   /** Current page for visible items (0-based), used when maxVisible > 0 */
@@ -53,6 +100,11 @@ export interface GridContainerProps extends Omit<HTMLAttributes<HTMLDivElement>,
    * @example ['16:9', '9:16', undefined]
    */
   itemAspectRatios?: (ItemAspectRatio | undefined)[]
+  /**
+   * Per-item tile weights for a mosaic gallery (weight N spans an N×N block).
+   * @example [1, 2, 1, 1]
+   */
+  weights?: number[]
   /** Custom width for the floating PiP item in 2-person mode */
   floatWidth?: number
   /** Custom height for the floating PiP item in 2-person mode */
@@ -69,6 +121,136 @@ export interface GridContainerProps extends Omit<HTMLAttributes<HTMLDivElement>,
    * ]}
    */
   floatBreakpoints?: PipBreakpoint[]
+  /** Layout for exactly two items: Zoom-style 'float' (default) or a side-by-side 'gallery' */
+  twoPersonLayout?: 'float' | 'gallery'
+  /** Which item floats in the 2-person float layout (0 or 1, default 1) */
+  twoPersonFloatIndex?: number
+  /** Swap the main and floating items in the 2-person float layout */
+  twoPersonSwap?: boolean
+  /** Whether the 2-person main item fills the container edge-to-edge or is inset by gap */
+  twoPersonEdgeToEdge?: boolean
+  /** Index of the local participant's own tile (self-view) */
+  selfIndex?: number
+  /**
+   * How the self-view is shown in any layout mode: a regular 'tile', a draggable
+   * 'float' PiP, 'hidden', or a fixed 'corner-slot' tile
+   */
+  selfViewMode?: SelfViewMode
+  /** Items that float as draggable PiPs over any layout (e.g. self-view, interpreter) */
+  floatIndices?: number[]
+  /** Per-item floating PiP sizes (index-based) */
+  floatSizes?: (GridDimensions | undefined)[]
+  /**
+   * Per-item corners floating PiPs rest at (index-based, default 'bottom-right').
+   * Controlled when set; otherwise dragged floats keep their corner internally.
+   */
+  floatAnchors?: (FloatAnchor | undefined)[]
+  /** Called with the new anchors after a float is dragged to a corner */
+  onFloatAnchorsChange?: (anchors: (FloatAnchor | undefined)[]) => void
+  /** Direction floats sharing a corner stack in */
+  floatStackDirection?: 'vertical' | 'horizontal'
+  /**
+   * Whether a dragged float snaps to a corner on its own ('individual') or takes
+   * every float with it ('group')
+   * @default 'individual'
+   */
+  floatSnap?: 'individual' | 'group'
+  /** Indices of content-share items, laid out at their own ratio in 'presentation' mode */
+  contentIndices?: number[]
+  /** Index of the presenter's camera in 'presentation' mode */
+  presenterIndex?: number
+  /** Direction of the scrollable strip in 'filmstrip' mode */
+  filmstripOrientation?: 'horizontal' | 'vertical'
+  /** Indices of on-stage items in 'stage' mode; everyone else is audience */
+  stageIndices?: number[]
+  /** Reserve a compact audience-reactions slot in 'stage' mode (see grid.reactionsSlot) */
+  showReactionsSlot?: boolean
+  /** Groups for 'grouped' mode (breakout rooms, teams); bounds are returned as grid.groups */
+  groups?: GridGroup[]
+  /** Height of each group's header band in 'grouped' mode */
+  groupHeaderHeight?: number
+  /**
+   * Layout template for 'template' mode (grid-template-areas style string or LayoutTemplate).
+   * @example 'a a b / a a c / d d d'
+   */
+  template?: string | LayoutTemplate
+  /** Item indices assigned to each template area in 'template' mode */
+  templateAreas?: Record<string, number[]>
+  /** Per-item roles matched against template area names in 'template' mode */
+  itemRoles?: (string | undefined)[]
+  /**
+   * Layout state for 'freeform' mode (controlled).
+   * When omitted, the container keeps its own state.
+   */
+  freeformLayout?: FreeformLayoutState
+  /** Called with the new layout after an item is dragged or resized in 'freeform' mode */
+  onFreeformLayoutChange?: (layout: FreeformLayoutState) => void
+  /** Distance in pixels within which dragged edges snap in 'freeform' mode */
+  freeformSnapThreshold?: number
+  /**
+   * Grow the gallery vertically instead of paginating. The container scrolls and
+   * only tiles in or near the viewport are rendered.
+   */
+  scrollable?: boolean
+  /**
+   * Minimum tile size. Also keeps gallery and pin thumbnails from shrinking below it;
+   * items that don't fit overflow into the "+N" indicator or further pages.
+   */
+  minTileSize?: GridDimensions
+  /** Maximum tile size for the gallery and pin thumbnails */
+  maxTileSize?: GridDimensions
+  /**
+   * Space inside each tile for chrome such as a name bar. The aspect ratio applies to the
+   * video area; contentDimensions is the video rect within the tile.
+   */
+  tileChrome?: Partial<GridPadding>
+  /**
+   * Extra distance (px) above and below the viewport in which tiles are still rendered
+   * @default half the container height
+   */
+  scrollOverscan?: number
+  /**
+   * Per-item video state. Items with `false` are packed as circular audio-only bubbles
+   * (see the `bubble` render prop of GridItem).
+   */
+  hasVideo?: boolean[]
+  /** Preferred bubble diameter (px) for audio-only items next to video items */
+  bubbleSize?: number
+  /**
+   * Show the other participants as a translucent filmstrip over the bottom of the
+   * spotlight ('spotlight' mode). It slides out after inactivity and back on pointer movement.
+   */
+  spotlightOverlay?: boolean
+  /** Inactivity (ms) after which the overlay filmstrip slides out */
+  overlayHideDelay?: number
+  /**
+   * Index of the front card in 'stack' mode (controlled).
+   * When omitted, the container tracks swipes itself.
+   */
+  stackIndex?: number
+  /** Called with the new front card index after a swipe in 'stack' mode */
+  onStackIndexChange?: (index: number) => void
+  /** Number of cards peeking behind the front card in 'stack' mode */
+  stackPeekCount?: number
+  /** Scene (seats and background) for 'scene' mode */
+  scene?: LayoutScene
+  /** How the scene is scaled to the container in 'scene' mode */
+  sceneFit?: 'contain' | 'cover'
+  /**
+   * Stable item ids by index. GridItems can then be addressed with `itemId` instead of `index`.
+   * Defaults `count` to the number of ids.
+   */
+  itemIds?: string[]
+  /**
+   * Keep tiles in place as participants join and leave (requires itemIds):
+   * a leaving tile's slot is taken by the last tile and joins are appended.
+   */
+  stableSlots?: boolean
+  /**
+   * Display order (`itemOrder[slot]` is an item index), e.g. from createPriorityOrderer.
+   * Pagination and maxVisible follow this order. Ignored when stableSlots is set.
+   */
+  itemOrder?: number[]
 }
 
 /**
@@ -80,21 +262,73 @@ export const GridContainer = forwardRef<HTMLDivElement, GridContainerProps>(func
     children,
     aspectRatio = '16:9',
     gap = 8,
+    padding,
+    rowGap,
+    columnGap,
+    lastRowAlign,
     count,
     layoutMode = 'gallery',
     pinnedIndex,
+    pinnedIndices,
     othersPosition,
     springPreset = 'smooth',
     style,
     className,
     maxItemsPerPage,
     currentPage,
+    autoPageSize,
+    stickyIndices,
     maxVisible,
     currentVisiblePage,
     itemAspectRatios,
+    weights,
     floatWidth,
     floatHeight,
     floatBreakpoints,
+    twoPersonLayout,
+    twoPersonFloatIndex,
+    twoPersonSwap,
+    twoPersonEdgeToEdge,
+    selfIndex,
+    selfViewMode,
+    floatIndices,
+    floatSizes,
+    floatAnchors,
+    onFloatAnchorsChange,
+    floatStackDirection,
+    floatSnap = 'individual',
+    contentIndices,
+    presenterIndex,
+    filmstripOrientation,
+    stageIndices,
+    showReactionsSlot,
+    groups,
+    groupHeaderHeight,
+    template,
+    templateAreas,
+    itemRoles,
+    freeformLayout,
+    onFreeformLayoutChange,
+    freeformSnapThreshold,
+    scrollable,
+    minTileSize,
+    maxTileSize,
+    tileChrome,
+    scrollOverscan,
+    onScroll,
+    hasVideo,
+    bubbleSize,
+    spotlightOverlay,
+    overlayHideDelay,
+    onPointerMove,
+    stackIndex,
+    onStackIndexChange,
+    stackPeekCount,
+    scene,
+    sceneFit,
+    itemIds,
+    stableSlots,
+    itemOrder,
 
     ...props
   },
@@ -105,39 +339,310 @@ export const GridContainer = forwardRef<HTMLDivElement, GridContainerProps>(func
   const dimensions = useGridDimensions(ref)
 
   // Count children if count not provided
-  const childCount = count ?? React.Children.count(children)
+  const childCount = count ?? itemIds?.length ?? React.Children.count(children)
+
+  // Stable slots: display order by item id, reshuffled only when the grid shape changes.
+  // Each assignment derives from the last committed one, so rendering has no side effects
+  const slotShape =
+    stableSlots && itemIds
+      ? getGridItemDimensions({
+          count: itemIds.length,
+          dimensions,
+          aspectRatio,
+          gap,
+          padding,
+          rowGap,
+          columnGap,
+          lastRowAlign,
+        })
+      : undefined
+  const committedSlots = useRef<SlotAssignment | undefined>(undefined)
+  const itemIdsKey = slotShape ? JSON.stringify(itemIds) : undefined
+  const slotAssignment = React.useMemo(
+    () =>
+      slotShape && itemIds
+        ? assignSlots(committedSlots.current, itemIds, {
+            rows: slotShape.rows,
+            cols: slotShape.cols,
+          })
+        : undefined,
+    [itemIdsKey, slotShape?.rows, slotShape?.cols]
+  )
+  React.useEffect(() => {
+    committedSlots.current = slotAssignment
+  }, [slotAssignment])
+  let slotOrder: number[] | undefined
+  if (slotAssignment && itemIds) {
+    const indexById = new Map(itemIds.map((id, index) => [id, index]))
+    slotOrder = slotAssignment.order.map((id) => indexById.get(id)!)
+  }
+
+  // Overlay filmstrip: time since the last pointer activity (reset on pointer move)
+  const [overlayIdleTime, setOverlayIdleTime] = React.useState(0)
+  const lastPointerActivity = useRef(Date.now())
+
+  // Stack mode front card: controlled via props, otherwise kept locally
+  const [localStackIndex, setLocalStackIndex] = React.useState(0)
+
+  // Float anchors: controlled via props, otherwise kept locally
+  const [localFloatAnchors, setLocalFloatAnchors] = React.useState<(FloatAnchor | undefined)[]>([])
+  const resolvedFloatAnchors = floatAnchors ?? localFloatAnchors
+
+  // Freeform layout state: controlled via props, otherwise kept locally
+  const [localFreeformLayout, setLocalFreeformLayout] = React.useState(createFreeformLayout)
+  const resolvedFreeformLayout = freeformLayout ?? localFreeformLayout
 
   const gridOptions: MeetGridOptions = {
     dimensions,
     count: childCount,
     aspectRatio,
     gap,
+    padding,
+    rowGap,
+    columnGap,
+    lastRowAlign,
     layoutMode,
     pinnedIndex,
+    pinnedIndices,
     othersPosition,
     maxItemsPerPage,
     currentPage,
+    autoPageSize,
+    stickyIndices,
     maxVisible,
     currentVisiblePage,
     itemAspectRatios,
+    weights,
     floatWidth,
     floatHeight,
     floatBreakpoints,
+    twoPersonLayout,
+    twoPersonFloatIndex,
+    twoPersonSwap,
+    twoPersonEdgeToEdge,
+    selfIndex,
+    selfViewMode,
+    floatIndices,
+    floatSizes,
+    floatAnchors: resolvedFloatAnchors,
+    floatStackDirection,
+    contentIndices,
+    presenterIndex,
+    filmstripOrientation,
+    stageIndices,
+    showReactionsSlot,
+    groups,
+    groupHeaderHeight,
+    template,
+    templateAreas,
+    itemRoles,
+    freeformLayout: resolvedFreeformLayout,
+    scrollable,
+    minTileSize,
+    maxTileSize,
+    tileChrome,
+    hasVideo,
+    bubbleSize,
+    spotlightOverlay,
+    overlayIdleTime,
+    overlayHideDelay,
+    stackIndex: stackIndex ?? localStackIndex,
+    stackPeekCount,
+    scene,
+    sceneFit,
+    itemOrder: slotOrder ?? itemOrder,
   }
 
   const grid = useMeetGrid(gridOptions)
 
+  // Virtualized layouts: only render items in or near the scroll viewport
+  const [scrollTop, setScrollTop] = React.useState(0)
+  const overscan = scrollOverscan ?? dimensions.height / 2
+  const renderRange = grid.getVisibleRange?.({
+    top: scrollTop - overscan,
+    height: dimensions.height + overscan * 2,
+  })
+
+  // Hide the overlay filmstrip once the pointer has been idle for its hide delay
+  const overlayStrip = grid.overlayStrip
+  const stripHideDelay = overlayStrip?.hideDelay
+  React.useEffect(() => {
+    if (stripHideDelay === undefined || overlayIdleTime >= stripHideDelay) return
+    let timer: ReturnType<typeof setTimeout>
+    const check = () => {
+      const elapsed = Date.now() - lastPointerActivity.current
+      if (elapsed >= stripHideDelay) {
+        setOverlayIdleTime(elapsed)
+      } else {
+        timer = setTimeout(check, stripHideDelay - elapsed)
+      }
+    }
+    timer = setTimeout(check, stripHideDelay - overlayIdleTime)
+    return () => clearTimeout(timer)
+  }, [stripHideDelay, overlayIdleTime])
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    lastPointerActivity.current = Date.now()
+    if (overlayIdleTime !== 0) {
+      setOverlayIdleTime(0)
+    }
+    onPointerMove?.(e)
+  }
+
+  // Swipes move through the deck in display order; stackIndex is an item index
+  const setStackIndex = (slot: number) => {
+    const clamped = Math.min(Math.max(0, slot), childCount - 1)
+    const next = grid.itemOrder?.[clamped] ?? clamped
+    if (next === grid.stackIndex) return
+    if (stackIndex === undefined) {
+      setLocalStackIndex(next)
+    }
+    onStackIndexChange?.(next)
+  }
+
+  const handleScroll = (e: React.UIEvent<HTMLDivElement>) => {
+    setScrollTop(e.currentTarget.scrollTop)
+    onScroll?.(e)
+  }
+
+  const commitFreeformRect = (index: number, rect: GridRect, mode: 'move' | 'resize') => {
+    const others: GridRect[] = []
+    for (let i = 0; i < childCount; i++) {
+      if (i !== index) {
+        others.push({ ...grid.getPosition(i), ...grid.getItemDimensions(i) })
+      }
+    }
+    const snapped = snapFreeformRect(rect, {
+      dimensions,
+      others,
+      mode,
+      gap,
+      threshold: freeformSnapThreshold,
+    })
+    const next = updateFreeformItem(resolvedFreeformLayout, index, snapped, dimensions)
+    if (!freeformLayout) {
+      setLocalFreeformLayout(next)
+    }
+    onFreeformLayoutChange?.(next)
+    return snapped
+  }
+
+  // Floating PiPs rest at their corners, stacked where they share one
+  const floatItems: FloatItem[] =
+    grid.floatItems ??
+    (grid.floatIndex !== undefined
+      ? [
+          {
+            index: grid.floatIndex,
+            ...(grid.floatDimensions ?? { width: 120, height: 160 }),
+            anchor: 'bottom-right',
+          },
+        ]
+      : [])
+  const floatStackOptions = { gap, direction: floatStackDirection }
+  const floatPositions = getFloatPositions(dimensions, floatItems, floatStackOptions)
+
+  const snapFloat = (index: number, rect: GridRect) => {
+    const anchor = getNearestFloatAnchor(dimensions, rect)
+    const moved = floatItems.map((float) =>
+      float.index === index || floatSnap === 'group' ? { ...float, anchor } : float
+    )
+    const next = [...resolvedFloatAnchors]
+    for (const float of moved) {
+      next[float.index] = float.anchor
+    }
+    if (!floatAnchors) {
+      setLocalFloatAnchors(next)
+    }
+    onFloatAnchorsChange?.(next)
+    return getFloatPositions(dimensions, moved, floatStackOptions).get(index)
+  }
+
+  // Layouts that overflow the container (e.g. filmstrip) make it scrollable
+  const scrollExtent = grid.scrollExtent
+
   const containerStyle: CSSProperties = {
     position: 'relative',
     width: '100%',
     height: '100%',
-    overflow: 'hidden',
+    overflowX: scrollExtent && scrollExtent.width > dimensions.width ? 'auto' : 'hidden',
+    overflowY: scrollExtent && scrollExtent.height > dimensions.height ? 'auto' : 'hidden',
     ...style,
   }
 
   return (
-    <GridContext.Provider value={{ dimensions, grid, springPreset }}>
-      <div ref={ref} style={containerStyle} className={className} {...props}>
+    <GridContext.Provider
+      value={{
+        dimensions,
+        grid,
+        springPreset,
+        commitFreeformRect,
+        renderRange,
+        setStackIndex,
+        itemIds,
+        floatItems,
+        floatPositions,
+        snapFloat,
+      }}
+    >
+      <div
+        ref={ref}
+        style={containerStyle}
+        className={className}
+        onScroll={handleScroll}
+        onPointerMove={handlePointerMove}
+        {...props}
+      >
+        {grid.scene?.background && (
+          // Scene background, scaled like the seats
+          <div
+            aria-hidden
+            style={{
+              position: 'absolute',
+              top: grid.scene.bounds.top,
+              left: grid.scene.bounds.left,
+              width: grid.scene.bounds.width,
+              height: grid.scene.bounds.height,
+              backgroundImage: `url(${grid.scene.background})`,
+              backgroundSize: '100% 100%',
+              pointerEvents: 'none',
+            }}
+          />
+        )}
+        {overlayStrip && (
+          // Translucent band behind the overlay filmstrip tiles
+          <div
+            aria-hidden
+            style={{
+              position: 'absolute',
+              top: overlayStrip.bounds.top,
+              left: overlayStrip.bounds.left,
+              width: overlayStrip.bounds.width,
+              height: overlayStrip.bounds.height,
+              background: 'rgba(0,0,0,0.35)',
+              backdropFilter: 'blur(8px)',
+              transform: overlayStrip.visible ? 'none' : 'translateY(100%)',
+              transition: 'transform 0.3s ease',
+              zIndex: 1,
+              pointerEvents: 'none',
+            }}
+          />
+        )}
+        {scrollExtent && (
+          // Spacer so the scrollable area includes the trailing gap
+          <div
+            aria-hidden
+            style={{
+              position: 'absolute',
+              top: 0,
+              left: 0,
+              width: scrollExtent.width,
+              height: scrollExtent.height,
+              visibility: 'hidden',
+              pointerEvents: 'none',
+            }}
+          />
+        )}
         {children}
       </div>
     </GridContext.Provider>
@@ -148,12 +653,10 @@ export const GridContainer = forwardRef<HTMLDivElement, GridContainerProps>(func
 // GridItem Component
 // ============================================
 
-export interface GridItemProps extends Omit<
+export interface GridItemBaseProps extends Omit<
   HTMLMotionProps<'div'>,
   'animate' | 'initial' | 'transition' | 'children'
 > {
-  /** Index of this item in the grid */
-  index: number
   /**
    * Children to render inside the item.
    * Can be a ReactNode or a render function that receives contentDimensions and visibility info.
@@ -194,6 +697,8 @@ export interface GridItemProps extends Omit<
         hiddenCount: number
         /** True if this item is rendered as a floating PiP */
         isFloat: boolean
+        /** Circle geometry when this item is an audio-only bubble */
+        bubble?: Bubble
       }) => ReactNode)
   /** Optional item-specific aspect ratio (overrides itemAspectRatios from container) */
   itemAspectRatio?: ItemAspectRatio
@@ -207,14 +712,31 @@ export interface GridItemProps extends Omit<
   style?: CSSProperties
 }
 
+/** Grid item props: address the item by exactly one of `index` or `itemId` */
+export type GridItemProps = GridItemBaseProps &
+  (
+    | {
+        /** Index of this item in the grid */
+        index: number
+        itemId?: never
+      }
+    | {
+        /** Stable id of this item, resolved against the container's itemIds */
+        itemId: string
+        index?: never
+      }
+  )
+
 /**
  * Grid item component with Motion animations.
  * Automatically positions itself based on index in the grid.
  * When the grid marks this item as float (2-person mode), renders as a draggable PiP.
+ * In 'freeform' mode, the item can be dragged and resized (bottom-right handle).
  */
 export const GridItem = forwardRef<HTMLDivElement, GridItemProps>(function GridItem(
   {
-    index,
+    index: indexProp,
+    itemId,
     children,
     itemAspectRatio,
     transition: customTransition,
@@ -225,51 +747,50 @@ export const GridItem = forwardRef<HTMLDivElement, GridItemProps>(function GridI
   },
   ref
 ) {
-  const { grid, springPreset, dimensions: containerDimensions } = useGridContext()
+  const {
+    grid,
+    springPreset,
+    dimensions: containerDimensions,
+    commitFreeformRect,
+    renderRange,
+    setStackIndex,
+    itemIds,
+    floatItems,
+    floatPositions,
+    snapFloat,
+  } = useGridContext()
+
+  // Items addressed by id follow their participant when indices shift
+  const index = itemId !== undefined ? (itemIds?.indexOf(itemId) ?? -1) : (indexProp ?? -1)
 
   // Compute all grid-derived values upfront (safe even when grid is null)
   // so that hooks below can reference them without conditional returns before hooks
-  const isFloat = grid ? grid.floatIndex === index : false
+  const floatItem = floatItems?.find((float) => float.index === index)
+  const isFloat = !!grid && !!floatItem
   const isVisible = grid ? grid.isItemVisible(index) : false
   const isMain = grid ? grid.isMainItem(index) : false
+  // Render ranges refer to display slots
+  const slot = grid?.itemOrder ? grid.itemOrder.indexOf(index) : index
+  const isOutOfRange =
+    !isFloat && !!renderRange && (slot < renderRange.startIndex || slot >= renderRange.endIndex)
+  const isOverlayItem = !!grid?.overlayStrip && !isMain
   const isHidden =
-    !grid || !isVisible || (grid.layoutMode === 'spotlight' && !isMain)
+    !grid ||
+    !isVisible ||
+    isOutOfRange ||
+    (grid.layoutMode === 'spotlight' && !isMain && !isOverlayItem && !isFloat)
 
   const position = grid && !isHidden ? grid.getPosition(index) : { top: 0, left: 0 }
   const itemDims = grid && !isHidden ? grid.getItemDimensions(index) : { width: 0, height: 0 }
 
-  // Float mode state
-  const floatDims = grid?.floatDimensions ?? { width: 120, height: 160 }
-  const [floatAnchor, setFloatAnchor] = React.useState<
-    'top-left' | 'top-right' | 'bottom-left' | 'bottom-right'
-  >('bottom-right')
+  // Float mode state: resting position comes from the container, which stacks floats
+  // sharing a corner so they never overlap
+  const floatDims = floatItem ?? { width: 120, height: 160 }
+  const floatRest = floatPositions?.get(index) ?? { top: 0, left: 0 }
   const floatX = useMotionValue(0)
   const floatY = useMotionValue(0)
   const [floatInitialized, setFloatInitialized] = React.useState(false)
 
-  const getFloatCornerPos = React.useCallback(
-    (corner: 'top-left' | 'top-right' | 'bottom-left' | 'bottom-right') => {
-      const padding = 12
-      const fw = floatDims.width
-      const fh = floatDims.height
-      switch (corner) {
-        case 'top-left':
-          return { x: padding, y: padding }
-        case 'top-right':
-          return { x: containerDimensions.width - fw - padding, y: padding }
-        case 'bottom-left':
-          return { x: padding, y: containerDimensions.height - fh - padding }
-        case 'bottom-right':
-        default:
-          return {
-            x: containerDimensions.width - fw - padding,
-            y: containerDimensions.height - fh - padding,
-          }
-      }
-    },
-    [containerDimensions.width, containerDimensions.height, floatDims.width, floatDims.height]
-  )
-
   // Reset floatInitialized when item stops floating (e.g., 2→3 participants)
   // so that re-entering float mode (3→2) re-initializes position correctly
   React.useEffect(() => {
@@ -286,23 +807,22 @@ export const GridItem = forwardRef<HTMLDivElement, GridItemProps>(function GridI
       containerDimensions.height > 0 &&
       !floatInitialized
     ) {
-      const pos = getFloatCornerPos(floatAnchor)
-      floatX.set(pos.x)
-      floatY.set(pos.y)
+      floatX.set(floatRest.left)
+      floatY.set(floatRest.top)
       setFloatInitialized(true)
     }
   }, [
     isFloat,
     containerDimensions.width,
     containerDimensions.height,
-    floatAnchor,
-    getFloatCornerPos,
+    floatRest.left,
+    floatRest.top,
     floatInitialized,
     floatX,
     floatY,
   ])
 
-  // Update float position when anchor or container size changes
+  // Update float position when its anchor, the stack or the container size changes
   React.useEffect(() => {
     if (
       isFloat &&
@@ -310,17 +830,16 @@ export const GridItem = forwardRef<HTMLDivElement, GridItemProps>(function GridI
       containerDimensions.width > 0 &&
       containerDimensions.height > 0
     ) {
-      const pos = getFloatCornerPos(floatAnchor)
       const cfg = { type: 'spring' as const, stiffness: 400, damping: 30 }
-      animate(floatX, pos.x, cfg)
-      animate(floatY, pos.y, cfg)
+      animate(floatX, floatRest.left, cfg)
+      animate(floatY, floatRest.top, cfg)
     }
   }, [
     isFloat,
-    floatAnchor,
+    floatRest.left,
+    floatRest.top,
     containerDimensions.width,
     containerDimensions.height,
-    getFloatCornerPos,
     floatInitialized,
     floatX,
     floatY,
@@ -369,6 +888,11 @@ export const GridItem = forwardRef<HTMLDivElement, GridItemProps>(function GridI
     springConfig.damping,
   ])
 
+  // Freeform mode: drag starts from the tile body only, so the resize handle can own its pointer
+  const dragControls = useDragControls()
+  const [resizeDims, setResizeDims] = React.useState<{ width: number; height: number } | null>(null)
+  const resizeStart = useRef<{ x: number; y: number; width: number; height: number } | null>(null)
+
   // ── All hooks declared above — safe to do conditional returns below ──
 
   if (isHidden) {
@@ -391,7 +915,8 @@ export const GridItem = forwardRef<HTMLDivElement, GridItemProps>(function GridI
   // Render children - support both ReactNode and render function
   const renderChildren = () => {
     if (typeof children === 'function') {
-      return children({ contentDimensions, isLastVisibleOther, hiddenCount, isFloat })
+      const bubble = grid!.getBubble?.(index)
+      return children({ contentDimensions, isLastVisibleOther, hiddenCount, isFloat, bubble })
     }
     return children
   }
@@ -400,17 +925,6 @@ export const GridItem = forwardRef<HTMLDivElement, GridItemProps>(function GridI
   if (isFloat) {
     if (containerDimensions.width === 0 || containerDimensions.height === 0) return null
 
-    const findNearestCorner = (posX: number, posY: number) => {
-      const centerX = posX + floatDims.width / 2
-      const centerY = posY + floatDims.height / 2
-      const isLeft = centerX < containerDimensions.width / 2
-      const isTop = centerY < containerDimensions.height / 2
-      if (isTop && isLeft) return 'top-left' as const
-      if (isTop && !isLeft) return 'top-right' as const
-      if (!isTop && isLeft) return 'bottom-left' as const
-      return 'bottom-right' as const
-    }
-
     const dragConstraints = {
       left: 12,
       right: containerDimensions.width - floatDims.width - 12,
@@ -419,14 +933,18 @@ export const GridItem = forwardRef<HTMLDivElement, GridItemProps>(function GridI
     }
 
     const handleDragEnd = () => {
-      const currentX = floatX.get()
-      const currentY = floatY.get()
-      const nearestCorner = findNearestCorner(currentX, currentY)
-      setFloatAnchor(nearestCorner)
-      const snapPos = getFloatCornerPos(nearestCorner)
+      // Snap to the nearest corner; floats already there make room. Without a snap
+      // position (no container context, or the item left the floats) go back to rest
+      const snapPos =
+        snapFloat?.(index, {
+          left: floatX.get(),
+          top: floatY.get(),
+          width: floatDims.width,
+          height: floatDims.height,
+        }) ?? floatRest
       const springCfg = { type: 'spring' as const, stiffness: 400, damping: 30 }
-      animate(floatX, snapPos.x, springCfg)
-      animate(floatY, snapPos.y, springCfg)
+      animate(floatX, snapPos.left, springCfg)
+      animate(floatY, snapPos.top, springCfg)
     }
 
     const floatingStyle: CSSProperties = {
@@ -465,6 +983,166 @@ export const GridItem = forwardRef<HTMLDivElement, GridItemProps>(function GridI
     )
   }
 
+  // Freeform mode: draggable and resizable, snapped and stored by the container
+  if (grid!.layoutMode === 'freeform' && commitFreeformRect) {
+    const width = resizeDims?.width ?? itemDims.width
+    const height = resizeDims?.height ?? itemDims.height
+    const springCfg = {
+      type: 'spring' as const,
+      stiffness: springConfig.stiffness,
+      damping: springConfig.damping,
+    }
+
+    const settle = (rect: GridRect) => {
+      animate(gridX, rect.left, springCfg)
+      animate(gridY, rect.top, springCfg)
+    }
+
+    const handleDragEnd = () => {
+      settle(
+        commitFreeformRect(index, { left: gridX.get(), top: gridY.get(), width, height }, 'move')
+      )
+    }
+
+    const handleResizeStart = (e: React.PointerEvent<HTMLDivElement>) => {
+      e.stopPropagation()
+      e.currentTarget.setPointerCapture(e.pointerId)
+      resizeStart.current = { x: e.clientX, y: e.clientY, width, height }
+    }
+
+    const resizedDims = (e: React.PointerEvent<HTMLDivElement>) => {
+      const start = resizeStart.current
+      if (!start) return null
+      return {
+        width: Math.max(1, start.width + e.clientX - start.x),
+        height: Math.max(1, start.height + e.clientY - start.y),
+      }
+    }
+
+    const handleResizeMove = (e: React.PointerEvent<HTMLDivElement>) => {
+      const dims = resizedDims(e)
+      if (dims) setResizeDims(dims)
+    }
+
+    // The size comes from the pointer-up event itself: the last render may lag behind it
+    const handleResizeEnd = (e: React.PointerEvent<HTMLDivElement>) => {
+      const dims = resizedDims(e)
+      if (!dims) return
+      resizeStart.current = null
+      settle(commitFreeformRect(index, { left: gridX.get(), top: gridY.get(), ...dims }, 'resize'))
+      setResizeDims(null)
+    }
+
+    // A cancelled resize keeps the item's previous size
+    const handleResizeCancel = () => {
+      resizeStart.current = null
+      setResizeDims(null)
+    }
+
+    return (
+      <motion.div
+        ref={ref}
+        drag
+        dragListener={false}
+        dragControls={dragControls}
+        dragMomentum={false}
+        dragElastic={0}
+        dragConstraints={{
+          left: 0,
+          right: containerDimensions.width - width,
+          top: 0,
+          bottom: containerDimensions.height - height,
+        }}
+        onPointerDown={(e) => dragControls.start(e)}
+        onDragEnd={handleDragEnd}
+        style={{
+          position: 'absolute',
+          top: 0,
+          left: 0,
+          width,
+          height,
+          x: gridX,
+          y: gridY,
+          zIndex: grid!.getItemZIndex?.(index) ?? 0,
+          cursor: 'grab',
+          touchAction: 'none',
+          ...style,
+        }}
+        whileDrag={{ cursor: 'grabbing' }}
+        className={className}
+        data-grid-index={index}
+        data-grid-freeform={true}
+        {...props}
+      >
+        {renderChildren()}
+        <div
+          aria-hidden
+          data-grid-resize-handle
+          onPointerDown={handleResizeStart}
+          onPointerMove={handleResizeMove}
+          onPointerUp={handleResizeEnd}
+          onPointerCancel={handleResizeCancel}
+          style={{
+            position: 'absolute',
+            right: 0,
+            bottom: 0,
+            width: 16,
+            height: 16,
+            cursor: 'nwse-resize',
+            touchAction: 'none',
+          }}
+        />
+      </motion.div>
+    )
+  }
+
+  // Stack mode: the front card is swiped horizontally to move through the deck
+  if (grid!.layoutMode === 'stack' && setStackIndex) {
+    const handleSwipeEnd = (_: unknown, info: PanInfo) => {
+      const threshold = containerDimensions.width * 0.25
+      const swipe = info.offset.x + info.velocity.x * 0.2
+      if (swipe < -threshold) {
+        setStackIndex(slot + 1)
+      } else if (swipe > threshold) {
+        setStackIndex(slot - 1)
+      }
+      // Spring back; if the front card changed, the new position takes over
+      animate(gridX, position.left, {
+        type: 'spring',
+        stiffness: springConfig.stiffness,
+        damping: springConfig.damping,
+      })
+    }
+
+    return (
+      <motion.div
+        ref={ref}
+        drag={isMain ? 'x' : false}
+        dragMomentum={false}
+        onDragEnd={handleSwipeEnd}
+        initial={{ width: itemDims.width, height: itemDims.height }}
+        animate={{ width: itemDims.width, height: itemDims.height }}
+        transition={transition}
+        style={{
+          position: 'absolute',
+          top: 0,
+          left: 0,
+          x: gridX,
+          y: gridY,
+          zIndex: grid!.getItemZIndex?.(index) ?? 0,
+          touchAction: 'pan-y',
+          ...style,
+        }}
+        className={className}
+        data-grid-index={index}
+        data-grid-main={isMain}
+        {...props}
+      >
+        {renderChildren()}
+      </motion.div>
+    )
+  }
+
   if (disableAnimation) {
     return (
       <div
@@ -475,6 +1153,7 @@ export const GridItem = forwardRef<HTMLDivElement, GridItemProps>(function GridI
           height: itemDims.height,
           top: position.top,
           left: position.left,
+          zIndex: isOverlayItem ? 2 : grid!.getItemZIndex?.(index),
           ...style,
         }}
         className={className}
@@ -498,7 +1177,15 @@ export const GridItem = forwardRef<HTMLDivElement, GridItemProps>(function GridI
       initial={{ width: itemDims.width, height: itemDims.height }}
       animate={{ width: itemDims.width, height: itemDims.height }}
       transition={transition}
-      style={{ position: 'absolute', top: 0, left: 0, x: gridX, y: gridY, ...style }}
+      style={{
+        position: 'absolute',
+        top: 0,
+        left: 0,
+        x: gridX,
+        y: gridY,
+        zIndex: isOverlayItem ? 2 : grid!.getItemZIndex?.(index),
+        ...style,
+      }}
       className={className}
       data-grid-index={index}
       data-grid-main={isMain}
@@ -628,7 +1315,14 @@ export const FloatingGridItem = forwardRef<HTMLDivElement, FloatingGridItemProps
             }
         }
       },
-      [dimensions.width, dimensions.height, effectiveWidth, effectiveHeight, edgePadding, initialPosition.x]
+      [
+        dimensions.width,
+        dimensions.height,
+        effectiveWidth,
+        effectiveHeight,
+        edgePadding,
+        initialPosition.x,
+      ]
     )
 
     // Initialize position when dimensions are available
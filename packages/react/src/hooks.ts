@@ -1,8 +1,12 @@
 import { RefObject, useEffect, useMemo, useState, createContext, useContext } from 'react'
 import {
+  FloatItem,
   GridDimensions,
+  GridRect,
+  ItemRange,
   MeetGridOptions,
   MeetGridResult,
+  Position,
   createMeetGrid,
   getSpringConfig,
   SpringPreset,
@@ -16,6 +20,20 @@ interface GridContextValue {
   dimensions: GridDimensions
   grid: MeetGridResult | null
   springPreset: SpringPreset
+  /** Snap a dragged/resized rect and store it in the freeform layout ('freeform' mode) */
+  commitFreeformRect?: (index: number, rect: GridRect, mode: 'move' | 'resize') => GridRect
+  /** Items to render in a virtualized (scrollable) layout; items outside are not rendered */
+  renderRange?: ItemRange
+  /** Move the front card of 'stack' mode to a display slot (after a swipe) */
+  setStackIndex?: (slot: number) => void
+  /** Stable item ids by index, for GridItems addressed by itemId */
+  itemIds?: string[]
+  /** Floating PiP items with their current anchors */
+  floatItems?: FloatItem[]
+  /** Resting positions of the floating items */
+  floatPositions?: Map<number, Position>
+  /** Snap a dragged float to its nearest corner; returns its new resting position */
+  snapFloat?: (index: number, rect: GridRect) => Position | undefined
 }
 
 const GridContext = createContext<GridContextValue | null>(null)
@@ -87,6 +105,31 @@ export function useGridDimensions(ref: RefObject<HTMLElement | null>): GridDimen
 export function useMeetGrid(options: MeetGridOptions): MeetGridResult {
   // Serialize itemAspectRatios for dependency comparison
   const itemAspectRatiosKey = options.itemAspectRatios?.join(',') ?? ''
+  const weightsKey = options.weights?.join(',') ?? ''
+  const pinnedIndicesKey = options.pinnedIndices?.join(',') ?? ''
+  const stageIndicesKey = options.stageIndices?.join(',') ?? ''
+  const groupsKey = options.groups ? JSON.stringify(options.groups) : ''
+  const templateKey = options.template ? JSON.stringify(options.template) : ''
+  const templateAreasKey = options.templateAreas ? JSON.stringify(options.templateAreas) : ''
+  const itemRolesKey = options.itemRoles?.join(',') ?? ''
+  const paddingKey =
+    typeof options.padding === 'object' ? JSON.stringify(options.padding) : options.padding
+  const contentIndicesKey = options.contentIndices?.join(',') ?? ''
+  const minTileSizeKey = options.minTileSize
+    ? `${options.minTileSize.width}x${options.minTileSize.height}`
+    : ''
+  const maxTileSizeKey = options.maxTileSize
+    ? `${options.maxTileSize.width}x${options.maxTileSize.height}`
+    : ''
+  const tileChromeKey = options.tileChrome ? JSON.stringify(options.tileChrome) : ''
+  const hasVideoKey = options.hasVideo?.join(',') ?? ''
+  const sceneKey = options.scene ? JSON.stringify(options.scene) : ''
+  const itemOrderKey = options.itemOrder?.join(',') ?? ''
+  const stickyIndicesKey = options.stickyIndices?.join(',') ?? ''
+  const floatIndicesKey = options.floatIndices?.join(',') ?? ''
+  const floatSizesKey = options.floatSizes ? JSON.stringify(options.floatSizes) : ''
+  const floatAnchorsKey = options.floatAnchors?.join(',') ?? ''
+  const freeformLayoutKey = options.freeformLayout ? JSON.stringify(options.freeformLayout) : ''
 
   return useMemo(() => {
     return createMeetGrid(options)
@@ -96,14 +139,57 @@ export function useMeetGrid(options: MeetGridOptions): MeetGridResult {
     options.count,
     options.aspectRatio,
     options.gap,
+    paddingKey,
+    options.rowGap,
+    options.columnGap,
+    options.lastRowAlign,
     options.layoutMode,
     options.pinnedIndex,
+    pinnedIndicesKey,
     options.othersPosition,
     options.maxItemsPerPage,
     options.currentPage,
+    options.autoPageSize,
+    stickyIndicesKey,
     options.maxVisible,
     options.currentVisiblePage,
+    options.twoPersonLayout,
+    options.twoPersonFloatIndex,
+    options.twoPersonSwap,
+    options.twoPersonEdgeToEdge,
+    options.selfIndex,
+    options.selfViewMode,
+    floatIndicesKey,
+    floatSizesKey,
+    floatAnchorsKey,
+    options.floatStackDirection,
     itemAspectRatiosKey,
+    weightsKey,
+    contentIndicesKey,
+    options.presenterIndex,
+    options.filmstripOrientation,
+    stageIndicesKey,
+    options.showReactionsSlot,
+    groupsKey,
+    options.groupHeaderHeight,
+    templateKey,
+    templateAreasKey,
+    itemRolesKey,
+    freeformLayoutKey,
+    options.scrollable,
+    minTileSizeKey,
+    maxTileSizeKey,
+    tileChromeKey,
+    hasVideoKey,
+    options.bubbleSize,
+    options.spotlightOverlay,
+    options.overlayIdleTime,
+    options.overlayHideDelay,
+    options.stackIndex,
+    options.stackPeekCount,
+    sceneKey,
+    options.sceneFit,
+    itemOrderKey,
   ])
 }
 
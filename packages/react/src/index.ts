@@ -19,6 +19,7 @@ export {
 export type {
     GridContainerProps,
     GridItemProps,
+    GridItemBaseProps,
     GridOverlayProps,
     FloatingGridItemProps,
 } from './components'
@@ -31,10 +32,36 @@ export type {
     MeetGridOptions,
     MeetGridResult,
     LayoutMode,
+    LayoutModeRegistry,
+    LayoutModeFactory,
     SpringPreset,
     PaginationInfo,
     ItemAspectRatio,
+    SelfViewMode,
+    FloatAnchor,
+    FloatItem,
+    FloatStackOptions,
     ContentDimensions,
+    GridRect,
+    GridPadding,
+    LastRowAlign,
+    GridGroup,
+    GroupBounds,
+    LayoutTemplate,
+    TemplateArea,
+    FreeformItemState,
+    FreeformLayoutState,
+    ItemRange,
+    Bubble,
+    OverlayStrip,
+    LayoutScene,
+    SceneSeat,
+    SlotAssigner,
+    SlotAssignment,
+    PrioritySignals,
+    PriorityKey,
+    PriorityPolicy,
+    PriorityOrderer,
 } from '@thangdevalone/meeting-grid-layout-core'
 
 export {
@@ -45,4 +72,17 @@ export {
     getSpringConfig,
     springPresets,
     getAspectRatio,
+    parseLayoutTemplate,
+    registerLayoutMode,
+    unregisterLayoutMode,
+    createFreeformLayout,
+    updateFreeformItem,
+    snapFreeformRect,
+    serializeFreeformLayout,
+    parseFreeformLayout,
+    createSlotAssigner,
+    assignSlots,
+    createPriorityOrderer,
+    getFloatPositions,
+    getNearestFloatAnchor,
 } from '@thangdevalone/meeting-grid-layout-core'
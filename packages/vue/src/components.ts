@@ -1,14 +1,34 @@
 import {
+  assignSlots,
+  createFreeformLayout,
+  FloatAnchor,
+  FloatItem,
+  FreeformLayoutState,
+  getFloatPositions,
+  getGridItemDimensions,
+  getNearestFloatAnchor,
   getSpringConfig,
   GridDimensions,
+  GridGroup,
+  GridPadding,
+  GridRect,
   ItemAspectRatio,
+  ItemRange,
+  LastRowAlign,
+  LayoutTemplate,
   LayoutMode,
+  LayoutScene,
   MeetGridResult,
   PipBreakpoint,
+  Position,
   resolveFloatSize,
+  SelfViewMode,
+  SlotAssignment,
+  snapFreeformRect,
   SpringPreset,
+  updateFreeformItem,
 } from '@thangdevalone/meeting-grid-layout-core'
-import { animate, motion, useMotionValue } from 'motion-v'
+import { animate, motion, PanInfo, useDragControls, useMotionValue } from 'motion-v'
 import {
   computed,
   ComputedRef,
@@ -16,6 +36,7 @@ import {
   h,
   inject,
   InjectionKey,
+  onUnmounted,
   PropType,
   provide,
   ref,
@@ -32,6 +53,20 @@ export interface GridContextValue {
   grid: ComputedRef<MeetGridResult>
   springPreset: SpringPreset
   dimensions: Ref<GridDimensions>
+  /** Snap a dragged/resized rect and store it in the freeform layout ('freeform' mode) */
+  commitFreeformRect?: (index: number, rect: GridRect, mode: 'move' | 'resize') => GridRect
+  /** Items to render in a virtualized (scrollable) layout; items outside are not rendered */
+  renderRange?: ComputedRef<ItemRange | undefined>
+  /** Move the front card of 'stack' mode to a display slot (after a swipe) */
+  setStackIndex?: (slot: number) => void
+  /** Stable item ids by index, for GridItems addressed by itemId */
+  itemIds?: ComputedRef<string[] | undefined>
+  /** Floating PiP items with their current anchors */
+  floatItems?: ComputedRef<FloatItem[]>
+  /** Resting positions of the floating items */
+  floatPositions?: ComputedRef<Map<number, Position>>
+  /** Snap a dragged float to its nearest corner; returns its new resting position */
+  snapFloat?: (index: number, rect: GridRect) => Position | undefined
 }
 
 export const GridContextKey: InjectionKey<GridContextValue> = Symbol('MeetGridContext')
@@ -53,10 +88,30 @@ export const GridContainer = defineComponent({
       type: Number,
       default: 8,
     },
-    /** Number of items */
+    /** Outer padding, for every edge or per edge (defaults to gap) */
+    padding: {
+      type: [Number, Object] as PropType<number | Partial<GridPadding>>,
+      default: undefined,
+    },
+    /** Vertical gap between rows of tiles (defaults to gap) */
+    rowGap: {
+      type: Number,
+      default: undefined,
+    },
+    /** Horizontal gap between columns of tiles (defaults to gap) */
+    columnGap: {
+      type: Number,
+      default: undefined,
+    },
+    /** Layout of an incomplete last row in the gallery and pin thumbnails (defaults to 'center') */
+    lastRowAlign: {
+      type: String as PropType<LastRowAlign>,
+      default: undefined,
+    },
+    /** Number of items (defaults to the number of itemIds) */
     count: {
       type: Number,
-      required: true,
+      default: undefined,
     },
     /** Layout mode */
     layoutMode: {
@@ -68,6 +123,11 @@ export const GridContainer = defineComponent({
       type: Number,
       default: undefined,
     },
+    /** Indices of multiple pinned items sharing the main area (takes precedence over pinnedIndex) */
+    pinnedIndices: {
+      type: Array as PropType<number[]>,
+      default: undefined,
+    },
     /**
      * Position of "others" thumbnails when a participant is pinned.
      * In portrait containers, this is forced to 'bottom'.
@@ -92,6 +152,16 @@ export const GridContainer = defineComponent({
       type: Number,
       default: 0,
     },
+    /** Derive items per page from the container size and minTileSize instead of maxItemsPerPage */
+    autoPageSize: {
+      type: Boolean,
+      default: false,
+    },
+    /** Items that occupy a slot on every page (e.g. self-view, host) when paginating */
+    stickyIndices: {
+      type: Array as PropType<number[]>,
+      default: undefined,
+    },
     /** Maximum visible items (0 = show all). In gallery without pin: limits all items. With pin: limits "others". */
     maxVisible: {
       type: Number,
@@ -111,6 +181,14 @@ export const GridContainer = defineComponent({
       type: Array as PropType<(ItemAspectRatio | undefined)[]>,
       default: undefined,
     },
+    /**
+     * Per-item tile weights for a mosaic gallery (weight N spans an N×N block).
+     * @example [1, 2, 1, 1]
+     */
+    weights: {
+      type: Array as PropType<number[]>,
+      default: undefined,
+    },
     /** Custom width for the floating PiP item in 2-person mode */
     floatWidth: {
       type: Number,
@@ -130,6 +208,246 @@ export const GridContainer = defineComponent({
       type: Array as PropType<PipBreakpoint[]>,
       default: undefined,
     },
+    /** Layout for exactly two items: Zoom-style 'float' (default) or a side-by-side 'gallery' */
+    twoPersonLayout: {
+      type: String as PropType<'float' | 'gallery'>,
+      default: undefined,
+    },
+    /** Which item floats in the 2-person float layout (0 or 1, default 1) */
+    twoPersonFloatIndex: {
+      type: Number,
+      default: undefined,
+    },
+    /** Swap the main and floating items in the 2-person float layout */
+    twoPersonSwap: {
+      type: Boolean,
+      default: false,
+    },
+    /** Whether the 2-person main item fills the container edge-to-edge or is inset by gap */
+    twoPersonEdgeToEdge: {
+      type: Boolean,
+      default: true,
+    },
+    /** Index of the local participant's own tile (self-view) */
+    selfIndex: {
+      type: Number,
+      default: undefined,
+    },
+    /**
+     * How the self-view is shown in any layout mode: a regular 'tile', a draggable
+     * 'float' PiP, 'hidden', or a fixed 'corner-slot' tile
+     */
+    selfViewMode: {
+      type: String as PropType<SelfViewMode>,
+      default: undefined,
+    },
+    /** Items that float as draggable PiPs over any layout (e.g. self-view, interpreter) */
+    floatIndices: {
+      type: Array as PropType<number[]>,
+      default: undefined,
+    },
+    /** Per-item floating PiP sizes (index-based) */
+    floatSizes: {
+      type: Array as PropType<(GridDimensions | undefined)[]>,
+      default: undefined,
+    },
+    /**
+     * Per-item corners floating PiPs rest at (index-based, default 'bottom-right').
+     * Supports v-model:floatAnchors; otherwise dragged floats keep their corner internally.
+     */
+    floatAnchors: {
+      type: Array as PropType<(FloatAnchor | undefined)[]>,
+      default: undefined,
+    },
+    /** Direction floats sharing a corner stack in */
+    floatStackDirection: {
+      type: String as PropType<'vertical' | 'horizontal'>,
+      default: undefined,
+    },
+    /**
+     * Whether a dragged float snaps to a corner on its own ('individual') or takes
+     * every float with it ('group')
+     */
+    floatSnap: {
+      type: String as PropType<'individual' | 'group'>,
+      default: 'individual',
+    },
+    /** Indices of content-share items, laid out at their own ratio in 'presentation' mode */
+    contentIndices: {
+      type: Array as PropType<number[]>,
+      default: undefined,
+    },
+    /** Index of the presenter's camera in 'presentation' mode */
+    presenterIndex: {
+      type: Number,
+      default: undefined,
+    },
+    /** Direction of the scrollable strip in 'filmstrip' mode */
+    filmstripOrientation: {
+      type: String as PropType<'horizontal' | 'vertical'>,
+      default: 'horizontal',
+    },
+    /** Indices of on-stage items in 'stage' mode; everyone else is audience */
+    stageIndices: {
+      type: Array as PropType<number[]>,
+      default: undefined,
+    },
+    /** Reserve a compact audience-reactions slot in 'stage' mode (see grid.reactionsSlot) */
+    showReactionsSlot: {
+      type: Boolean,
+      default: false,
+    },
+    /** Groups for 'grouped' mode (breakout rooms, teams); bounds are returned as grid.groups */
+    groups: {
+      type: Array as PropType<GridGroup[]>,
+      default: undefined,
+    },
+    /** Height of each group's header band in 'grouped' mode */
+    groupHeaderHeight: {
+      type: Number,
+      default: 0,
+    },
+    /**
+     * Layout template for 'template' mode (grid-template-areas style string or LayoutTemplate).
+     * @example 'a a b / a a c / d d d'
+     */
+    template: {
+      type: [String, Object] as PropType<string | LayoutTemplate>,
+      default: undefined,
+    },
+    /** Item indices assigned to each template area in 'template' mode */
+    templateAreas: {
+      type: Object as PropType<Record<string, number[]>>,
+      default: undefined,
+    },
+    /** Per-item roles matched against template area names in 'template' mode */
+    itemRoles: {
+      type: Array as PropType<(string | undefined)[]>,
+      default: undefined,
+    },
+    /**
+     * Layout state for 'freeform' mode (use with v-model:freeformLayout).
+     * When omitted, the container keeps its own state.
+     */
+    freeformLayout: {
+      type: Object as PropType<FreeformLayoutState>,
+      default: undefined,
+    },
+    /** Distance in pixels within which dragged edges snap in 'freeform' mode */
+    freeformSnapThreshold: {
+      type: Number,
+      default: undefined,
+    },
+    /**
+     * Grow the gallery vertically instead of paginating. The container scrolls and
+     * only tiles in or near the viewport are rendered.
+     */
+    scrollable: {
+      type: Boolean,
+      default: false,
+    },
+    /**
+     * Minimum tile size. Also keeps gallery and pin thumbnails from shrinking below it;
+     * items that don't fit overflow into the "+N" indicator or further pages.
+     */
+    minTileSize: {
+      type: Object as PropType<GridDimensions>,
+      default: undefined,
+    },
+    /** Maximum tile size for the gallery and pin thumbnails */
+    maxTileSize: {
+      type: Object as PropType<GridDimensions>,
+      default: undefined,
+    },
+    /**
+     * Space inside each tile for chrome such as a name bar. The aspect ratio applies to the
+     * video area; contentDimensions is the video rect within the tile.
+     */
+    tileChrome: {
+      type: Object as PropType<Partial<GridPadding>>,
+      default: undefined,
+    },
+    /**
+     * Extra distance (px) above and below the viewport in which tiles are still rendered
+     * @default half the container height
+     */
+    scrollOverscan: {
+      type: Number,
+      default: undefined,
+    },
+    /**
+     * Per-item video state. Items with `false` are packed as circular audio-only bubbles
+     * (see the `bubble` slot prop of GridItem).
+     */
+    hasVideo: {
+      type: Array as PropType<boolean[]>,
+      default: undefined,
+    },
+    /** Preferred bubble diameter (px) for audio-only items next to video items */
+    bubbleSize: {
+      type: Number,
+      default: undefined,
+    },
+    /**
+     * Show the other participants as a translucent filmstrip over the bottom of the
+     * spotlight ('spotlight' mode). It slides out after inactivity and back on pointer movement.
+     */
+    spotlightOverlay: {
+      type: Boolean,
+      default: false,
+    },
+    /** Inactivity (ms) after which the overlay filmstrip slides out */
+    overlayHideDelay: {
+      type: Number,
+      default: undefined,
+    },
+    /**
+     * Index of the front card in 'stack' mode (use with v-model:stackIndex).
+     * When omitted, the container tracks swipes itself.
+     */
+    stackIndex: {
+      type: Number,
+      default: undefined,
+    },
+    /** Number of cards peeking behind the front card in 'stack' mode */
+    stackPeekCount: {
+      type: Number,
+      default: undefined,
+    },
+    /** Scene (seats and background) for 'scene' mode */
+    scene: {
+      type: Object as PropType<LayoutScene>,
+      default: undefined,
+    },
+    /** How the scene is scaled to the container in 'scene' mode */
+    sceneFit: {
+      type: String as PropType<'contain' | 'cover'>,
+      default: 'contain',
+    },
+    /**
+     * Stable item ids by index. GridItems can then be addressed with `itemId` instead of `index`.
+     * Defaults `count` to the number of ids.
+     */
+    itemIds: {
+      type: Array as PropType<string[]>,
+      default: undefined,
+    },
+    /**
+     * Keep tiles in place as participants join and leave (requires itemIds):
+     * a leaving tile's slot is taken by the last tile and joins are appended.
+     */
+    stableSlots: {
+      type: Boolean,
+      default: false,
+    },
+    /**
+     * Display order (`itemOrder[slot]` is an item index), e.g. from createPriorityOrderer.
+     * Pagination and maxVisible follow this order. Ignored when stableSlots is set.
+     */
+    itemOrder: {
+      type: Array as PropType<number[]>,
+      default: undefined,
+    },
 
     /** HTML tag to render */
     tag: {
@@ -137,39 +455,248 @@ export const GridContainer = defineComponent({
       default: 'div',
     },
   },
-  setup(props, { slots }) {
+  emits: ['update:freeformLayout', 'update:stackIndex', 'update:floatAnchors'],
+  setup(props, { slots, emit }) {
     const containerRef = ref<HTMLElement | null>(null)
     const dimensions = useGridDimensions(containerRef)
 
+    // Float anchors: controlled via v-model, otherwise kept locally
+    const localFloatAnchors = ref<(FloatAnchor | undefined)[]>([])
+    const floatAnchors = computed(() => props.floatAnchors ?? localFloatAnchors.value)
+
+    // Freeform layout state: controlled via v-model, otherwise kept locally
+    const localFreeformLayout = ref<FreeformLayoutState>(createFreeformLayout())
+    const freeformLayout = computed(() => props.freeformLayout ?? localFreeformLayout.value)
+
+    // Overlay filmstrip: time since the last pointer activity (reset on pointer move)
+    const overlayIdleTime = ref(0)
+    let lastPointerActivity = Date.now()
+
+    // Stack mode front card: controlled via v-model, otherwise kept locally
+    const localStackIndex = ref(0)
+
+    const count = computed(() => props.count ?? props.itemIds?.length ?? 0)
+
+    // Display order: stable slots by item id (reshuffled only when the grid shape changes),
+    // otherwise the itemOrder prop. Each assignment derives from the last committed one,
+    // so the computed stays free of side effects
+    let committedSlots: SlotAssignment | undefined
+    const slotAssignment = computed(() => {
+      const ids = props.itemIds
+      if (!props.stableSlots || !ids) return undefined
+      const { rows, cols } = getGridItemDimensions({
+        count: ids.length,
+        dimensions: dimensions.value,
+        aspectRatio: props.aspectRatio,
+        gap: props.gap,
+        padding: props.padding,
+        rowGap: props.rowGap,
+        columnGap: props.columnGap,
+        lastRowAlign: props.lastRowAlign,
+      })
+      return assignSlots(committedSlots, ids, { rows, cols })
+    })
+    watch(
+      slotAssignment,
+      (assignment) => {
+        committedSlots = assignment
+      },
+      { immediate: true }
+    )
+    const itemOrder = computed(() => {
+      const assignment = slotAssignment.value
+      const ids = props.itemIds
+      if (!assignment || !ids) return props.itemOrder
+      const indexById = new Map(ids.map((id, index) => [id, index]))
+      return assignment.order.map((id) => indexById.get(id)!)
+    })
+
     const gridOptions = computed(() => ({
       dimensions: dimensions.value,
-      count: props.count,
+      count: count.value,
       aspectRatio: props.aspectRatio,
       gap: props.gap,
+      padding: props.padding,
+      rowGap: props.rowGap,
+      columnGap: props.columnGap,
+      lastRowAlign: props.lastRowAlign,
       layoutMode: props.layoutMode,
       pinnedIndex: props.pinnedIndex,
+      pinnedIndices: props.pinnedIndices,
       othersPosition: props.othersPosition,
       maxItemsPerPage: props.maxItemsPerPage,
       currentPage: props.currentPage,
+      autoPageSize: props.autoPageSize,
+      stickyIndices: props.stickyIndices,
       maxVisible: props.maxVisible,
       currentVisiblePage: props.currentVisiblePage,
       itemAspectRatios: props.itemAspectRatios,
+      weights: props.weights,
       floatWidth: props.floatWidth,
       floatHeight: props.floatHeight,
       floatBreakpoints: props.floatBreakpoints,
+      twoPersonLayout: props.twoPersonLayout,
+      twoPersonFloatIndex: props.twoPersonFloatIndex,
+      twoPersonSwap: props.twoPersonSwap,
+      twoPersonEdgeToEdge: props.twoPersonEdgeToEdge,
+      selfIndex: props.selfIndex,
+      selfViewMode: props.selfViewMode,
+      floatIndices: props.floatIndices,
+      floatSizes: props.floatSizes,
+      floatAnchors: floatAnchors.value,
+      floatStackDirection: props.floatStackDirection,
+      contentIndices: props.contentIndices,
+      presenterIndex: props.presenterIndex,
+      filmstripOrientation: props.filmstripOrientation,
+      stageIndices: props.stageIndices,
+      showReactionsSlot: props.showReactionsSlot,
+      groups: props.groups,
+      groupHeaderHeight: props.groupHeaderHeight,
+      template: props.template,
+      templateAreas: props.templateAreas,
+      itemRoles: props.itemRoles,
+      freeformLayout: freeformLayout.value,
+      scrollable: props.scrollable,
+      minTileSize: props.minTileSize,
+      maxTileSize: props.maxTileSize,
+      tileChrome: props.tileChrome,
+      hasVideo: props.hasVideo,
+      bubbleSize: props.bubbleSize,
+      spotlightOverlay: props.spotlightOverlay,
+      overlayIdleTime: overlayIdleTime.value,
+      overlayHideDelay: props.overlayHideDelay,
+      stackIndex: props.stackIndex ?? localStackIndex.value,
+      stackPeekCount: props.stackPeekCount,
+      scene: props.scene,
+      sceneFit: props.sceneFit,
+      itemOrder: itemOrder.value,
     }))
 
     const grid = useMeetGrid(gridOptions)
 
+    // Hide the overlay filmstrip once the pointer has been idle for its hide delay
+    let overlayTimer: ReturnType<typeof setTimeout> | undefined
+    watch(
+      [() => grid.value.overlayStrip?.hideDelay, overlayIdleTime],
+      ([hideDelay, idle]) => {
+        clearTimeout(overlayTimer)
+        if (hideDelay === undefined || idle >= hideDelay) return
+        const check = () => {
+          const elapsed = Date.now() - lastPointerActivity
+          if (elapsed >= hideDelay) {
+            overlayIdleTime.value = elapsed
+          } else {
+            overlayTimer = setTimeout(check, hideDelay - elapsed)
+          }
+        }
+        overlayTimer = setTimeout(check, hideDelay - idle)
+      },
+      { immediate: true }
+    )
+    onUnmounted(() => clearTimeout(overlayTimer))
+
+    // Virtualized layouts: only render items in or near the scroll viewport
+    const scrollTop = ref(0)
+    const renderRange = computed(() => {
+      const overscan = props.scrollOverscan ?? dimensions.value.height / 2
+      return grid.value.getVisibleRange?.({
+        top: scrollTop.value - overscan,
+        height: dimensions.value.height + overscan * 2,
+      })
+    })
+
+    const commitFreeformRect = (index: number, rect: GridRect, mode: 'move' | 'resize') => {
+      const others: GridRect[] = []
+      for (let i = 0; i < count.value; i++) {
+        if (i !== index) {
+          others.push({ ...grid.value.getPosition(i), ...grid.value.getItemDimensions(i) })
+        }
+      }
+      const snapped = snapFreeformRect(rect, {
+        dimensions: dimensions.value,
+        others,
+        mode,
+        gap: props.gap,
+        threshold: props.freeformSnapThreshold,
+      })
+      const next = updateFreeformItem(freeformLayout.value, index, snapped, dimensions.value)
+      if (!props.freeformLayout) {
+        localFreeformLayout.value = next
+      }
+      emit('update:freeformLayout', next)
+      return snapped
+    }
+
+    // Floating PiPs rest at their corners, stacked where they share one
+    const floatItems = computed<FloatItem[]>(() => {
+      const { floatItems: items, floatIndex, floatDimensions } = grid.value
+      if (items) return items
+      if (floatIndex === undefined) return []
+      return [
+        {
+          index: floatIndex,
+          ...(floatDimensions ?? { width: 120, height: 160 }),
+          anchor: 'bottom-right',
+        },
+      ]
+    })
+    const floatStackOptions = computed(() => ({
+      gap: props.gap,
+      direction: props.floatStackDirection,
+    }))
+    const floatPositions = computed(() =>
+      getFloatPositions(dimensions.value, floatItems.value, floatStackOptions.value)
+    )
+
+    const snapFloat = (index: number, rect: GridRect) => {
+      const anchor = getNearestFloatAnchor(dimensions.value, rect)
+      const moved = floatItems.value.map((float) =>
+        float.index === index || props.floatSnap === 'group' ? { ...float, anchor } : float
+      )
+      const next = [...floatAnchors.value]
+      for (const float of moved) {
+        next[float.index] = float.anchor
+      }
+      if (!props.floatAnchors) {
+        localFloatAnchors.value = next
+      }
+      emit('update:floatAnchors', next)
+      return getFloatPositions(dimensions.value, moved, floatStackOptions.value).get(index)
+    }
+
+    // Swipes move through the deck in display order; stackIndex is an item index
+    const setStackIndex = (slot: number) => {
+      const clamped = Math.min(Math.max(0, slot), count.value - 1)
+      const next = grid.value.itemOrder?.[clamped] ?? clamped
+      if (next === grid.value.stackIndex) return
+      if (props.stackIndex === undefined) {
+        localStackIndex.value = next
+      }
+      emit('update:stackIndex', next)
+    }
+
     // Provide context to children
     provide(GridContextKey, {
       grid,
       springPreset: props.springPreset,
       dimensions,
+      commitFreeformRect,
+      renderRange,
+      setStackIndex,
+      itemIds: computed(() => props.itemIds),
+      floatItems,
+      floatPositions,
+      snapFloat,
     })
 
-    return () =>
-      h(
+    return () => {
+      // Layouts that overflow the container (e.g. filmstrip) make it scrollable
+      const scrollExtent = grid.value.scrollExtent
+      const overlayStrip = grid.value.overlayStrip
+      const scene = grid.value.scene
+      const dims = dimensions.value
+
+      return h(
         props.tag,
         {
           ref: containerRef,
@@ -177,11 +704,72 @@ export const GridContainer = defineComponent({
             position: 'relative',
             width: '100%',
             height: '100%',
-            overflow: 'hidden',
+            overflowX: scrollExtent && scrollExtent.width > dims.width ? 'auto' : 'hidden',
+            overflowY: scrollExtent && scrollExtent.height > dims.height ? 'auto' : 'hidden',
+          },
+          onScroll: (e: Event) => {
+            scrollTop.value = (e.currentTarget as HTMLElement).scrollTop
+          },
+          onPointermove: () => {
+            lastPointerActivity = Date.now()
+            overlayIdleTime.value = 0
           },
         },
-        slots.default?.()
+        [
+          // Scene background, scaled like the seats
+          scene?.background
+            ? h('div', {
+                'aria-hidden': 'true',
+                style: {
+                  position: 'absolute',
+                  top: `${scene.bounds.top}px`,
+                  left: `${scene.bounds.left}px`,
+                  width: `${scene.bounds.width}px`,
+                  height: `${scene.bounds.height}px`,
+                  backgroundImage: `url(${scene.background})`,
+                  backgroundSize: '100% 100%',
+                  pointerEvents: 'none',
+                },
+              })
+            : null,
+          // Translucent band behind the overlay filmstrip tiles
+          overlayStrip
+            ? h('div', {
+                'aria-hidden': 'true',
+                style: {
+                  position: 'absolute',
+                  top: `${overlayStrip.bounds.top}px`,
+                  left: `${overlayStrip.bounds.left}px`,
+                  width: `${overlayStrip.bounds.width}px`,
+                  height: `${overlayStrip.bounds.height}px`,
+                  background: 'rgba(0,0,0,0.35)',
+                  backdropFilter: 'blur(8px)',
+                  transform: overlayStrip.visible ? 'none' : 'translateY(100%)',
+                  transition: 'transform 0.3s ease',
+                  zIndex: 1,
+                  pointerEvents: 'none',
+                },
+              })
+            : null,
+          // Spacer so the scrollable area includes the trailing gap
+          scrollExtent
+            ? h('div', {
+                'aria-hidden': 'true',
+                style: {
+                  position: 'absolute',
+                  top: 0,
+                  left: 0,
+                  width: `${scrollExtent.width}px`,
+                  height: `${scrollExtent.height}px`,
+                  visibility: 'hidden',
+                  pointerEvents: 'none',
+                },
+              })
+            : null,
+          slots.default?.(),
+        ]
       )
+    }
   },
 })
 
@@ -192,10 +780,15 @@ export const GridContainer = defineComponent({
 export const GridItem = defineComponent({
   name: 'GridItem',
   props: {
-    /** Index of this item in the grid */
+    /** Index of this item in the grid (give exactly one of index or itemId) */
     index: {
       type: Number,
-      required: true,
+      default: undefined,
+    },
+    /** Stable id of this item, resolved against the container's itemIds */
+    itemId: {
+      type: String,
+      default: undefined,
     },
     /** Whether to disable animations */
     disableAnimation: {
@@ -221,68 +814,85 @@ export const GridItem = defineComponent({
       return () => null
     }
 
-    const { grid, springPreset, dimensions: containerDimensions } = context
+    if ((props.index === undefined) === (props.itemId === undefined)) {
+      console.warn('GridItem needs exactly one of index or itemId')
+    }
+
+    const {
+      grid,
+      springPreset,
+      dimensions: containerDimensions,
+      commitFreeformRect,
+      renderRange,
+      setStackIndex,
+      itemIds,
+      floatItems,
+      floatPositions,
+      snapFloat,
+    } = context
+
+    // Items addressed by id follow their participant when indices shift
+    const itemIndex = computed(() =>
+      props.itemId !== undefined
+        ? (itemIds?.value?.indexOf(props.itemId) ?? -1)
+        : (props.index ?? -1)
+    )
 
-    const position = computed(() => grid.value.getPosition(props.index))
-    const dimensions = computed(() => grid.value.getItemDimensions(props.index))
+    const position = computed(() => grid.value.getPosition(itemIndex.value))
+    const dimensions = computed(() => grid.value.getItemDimensions(itemIndex.value))
     const contentDimensions = computed(() =>
-      grid.value.getItemContentDimensions(props.index, props.itemAspectRatio)
+      grid.value.getItemContentDimensions(itemIndex.value, props.itemAspectRatio)
     )
-    const isMain = computed(() => grid.value.isMainItem(props.index))
-    const isVisible = computed(() => grid.value.isItemVisible(props.index))
+    const isMain = computed(() => grid.value.isMainItem(itemIndex.value))
+    const isVisible = computed(() => grid.value.isItemVisible(itemIndex.value))
+    const slot = computed(() =>
+      grid.value.itemOrder ? grid.value.itemOrder.indexOf(itemIndex.value) : itemIndex.value
+    )
+    const isOverlayItem = computed(() => !!grid.value.overlayStrip && !isMain.value)
+
+    // Float mode detection
+    const floatItem = computed(() =>
+      floatItems?.value.find((float) => float.index === itemIndex.value)
+    )
+    const isFloat = computed(() => !!floatItem.value)
+
     const isHidden = computed(() => {
-      // Hidden if spotlight mode and not main, OR if pagination says not visible
-      if (grid.value.layoutMode === 'spotlight' && !isMain.value) return true
+      // Hidden if spotlight mode and not main (unless in the overlay filmstrip or floating),
+      // OR if pagination says not visible
+      if (
+        grid.value.layoutMode === 'spotlight' &&
+        !isMain.value &&
+        !isOverlayItem.value &&
+        !isFloat.value
+      ) {
+        return true
+      }
       if (!isVisible.value) return true
+      // Virtualized layouts: outside the rendered range
+      // Render ranges refer to display slots
+      const range = renderRange?.value
+      if (
+        range &&
+        !isFloat.value &&
+        (slot.value < range.startIndex || slot.value >= range.endIndex)
+      ) {
+        return true
+      }
       return false
     })
 
-    // Float mode detection
-    const isFloat = computed(() => grid.value.floatIndex === props.index)
-    const floatDims = computed(() => grid.value.floatDimensions ?? { width: 120, height: 160 })
+    const floatDims = computed(() => floatItem.value ?? { width: 120, height: 160 })
 
-    // Float state — uses motion values like React version
-    const floatAnchor = ref<'top-left' | 'top-right' | 'bottom-left' | 'bottom-right'>(
-      'bottom-right'
+    // Float state — uses motion values like React version.
+    // The resting position comes from the container, which stacks floats sharing
+    // a corner so they never overlap.
+    const floatRest = computed(
+      () => floatPositions?.value.get(itemIndex.value) ?? { top: 0, left: 0 }
     )
     const x = useMotionValue(0)
     const y = useMotionValue(0)
     const floatInitialized = ref(false)
 
-    const getFloatCornerPos = (
-      corner: 'top-left' | 'top-right' | 'bottom-left' | 'bottom-right'
-    ) => {
-      const padding = 12
-      const dims = containerDimensions.value
-      const fw = floatDims.value.width
-      const fh = floatDims.value.height
-      switch (corner) {
-        case 'top-left':
-          return { x: padding, y: padding }
-        case 'top-right':
-          return { x: dims.width - fw - padding, y: padding }
-        case 'bottom-left':
-          return { x: padding, y: dims.height - fh - padding }
-        case 'bottom-right':
-        default:
-          return { x: dims.width - fw - padding, y: dims.height - fh - padding }
-      }
-    }
-
-    const findFloatNearestCorner = (posX: number, posY: number) => {
-      const fw = floatDims.value.width
-      const fh = floatDims.value.height
-      const centerX = posX + fw / 2
-      const centerY = posY + fh / 2
-      const dims = containerDimensions.value
-      const isLeft = centerX < dims.width / 2
-      const isTop = centerY < dims.height / 2
-      if (isTop && isLeft) return 'top-left' as const
-      if (isTop && !isLeft) return 'top-right' as const
-      if (!isTop && isLeft) return 'bottom-left' as const
-      return 'bottom-right' as const
-    }
-
     // Reset floatInitialized when item stops floating (e.g., 2→3 participants)
     // so that re-entering float mode (3→2) re-initializes position correctly
     watch(isFloat, (floating) => {
@@ -296,24 +906,27 @@ export const GridItem = defineComponent({
       [isFloat, () => containerDimensions.value.width, () => containerDimensions.value.height],
       ([floating, w, h]) => {
         if (floating && w > 0 && h > 0 && !floatInitialized.value) {
-          const pos = getFloatCornerPos(floatAnchor.value)
-          x.set(pos.x)
-          y.set(pos.y)
+          x.set(floatRest.value.left)
+          y.set(floatRest.value.top)
           floatInitialized.value = true
         }
       },
       { immediate: true }
     )
 
-    // Update float position when anchor or container size changes
+    // Update float position when its anchor, the stack or the container size changes
     watch(
-      [floatAnchor, () => containerDimensions.value.width, () => containerDimensions.value.height],
-      ([, w, h]) => {
+      [
+        () => floatRest.value.left,
+        () => floatRest.value.top,
+        () => containerDimensions.value.width,
+        () => containerDimensions.value.height,
+      ],
+      ([left, top, w, h]) => {
         if (isFloat.value && floatInitialized.value && w > 0 && h > 0) {
-          const pos = getFloatCornerPos(floatAnchor.value)
           const springCfg = { type: 'spring' as const, stiffness: 400, damping: 30 }
-          animate(x, pos.x, springCfg)
-          animate(y, pos.y, springCfg)
+          animate(x, left, springCfg)
+          animate(y, top, springCfg)
         }
       }
     )
@@ -321,7 +934,7 @@ export const GridItem = defineComponent({
     // Calculate if this is the last visible "other" item
     const isLastVisibleOther = computed(() => {
       const lastVisibleOthersIndex = grid.value.getLastVisibleOthersIndex()
-      return props.index === lastVisibleOthersIndex
+      return itemIndex.value === lastVisibleOthersIndex
     })
     const hiddenCount = computed(() => grid.value.hiddenCount)
 
@@ -336,12 +949,7 @@ export const GridItem = defineComponent({
     const gridAnimReady = ref(false)
 
     watch(
-      [
-        () => position.value.top,
-        () => position.value.left,
-        isFloat,
-        isHidden,
-      ],
+      [() => position.value.top, () => position.value.left, isFloat, isHidden],
       ([, , floating, hidden]) => {
         // Skip when in float mode or hidden — reset so re-entry initializes correctly
         if (floating || hidden) {
@@ -369,12 +977,18 @@ export const GridItem = defineComponent({
       { immediate: true }
     )
 
+    // Freeform mode: drag starts from the tile body only, so the resize handle can own its pointer
+    const dragControls = useDragControls()
+    const resizeDims = ref<GridDimensions | null>(null)
+    let resizeStart: { x: number; y: number; width: number; height: number } | null = null
+
     // Slot props for render function
     const slotProps = computed(() => ({
       contentDimensions: contentDimensions.value,
       isLastVisibleOther: isLastVisibleOther.value,
       hiddenCount: hiddenCount.value,
       isFloat: isFloat.value,
+      bubble: grid.value.getBubble?.(itemIndex.value),
     }))
 
     return () => {
@@ -395,21 +1009,25 @@ export const GridItem = defineComponent({
         }
 
         const handleDragEnd = () => {
-          const currentX = x.get()
-          const currentY = y.get()
-          const nearestCorner = findFloatNearestCorner(currentX, currentY)
-          floatAnchor.value = nearestCorner
-          const snapPos = getFloatCornerPos(nearestCorner)
+          // Snap to the nearest corner; floats already there make room. Without a snap
+          // position (no container context, or the item left the floats) go back to rest
+          const snapPos =
+            snapFloat?.(itemIndex.value, {
+              left: x.get(),
+              top: y.get(),
+              width: floatDims.value.width,
+              height: floatDims.value.height,
+            }) ?? floatRest.value
           const springCfg = { type: 'spring' as const, stiffness: 400, damping: 30 }
-          animate(x, snapPos.x, springCfg)
-          animate(y, snapPos.y, springCfg)
+          animate(x, snapPos.left, springCfg)
+          animate(y, snapPos.top, springCfg)
         }
 
         return h(
           motion.div,
           {
             // Key forces Vue to recreate this element when switching float↔grid
-            key: `float-${props.index}`,
+            key: `float-${itemIndex.value}`,
             drag: true,
             dragMomentum: false,
             dragElastic: 0.1,
@@ -431,7 +1049,7 @@ export const GridItem = defineComponent({
             },
             whileDrag: { cursor: 'grabbing', scale: 1.05, boxShadow: '0 8px 32px rgba(0,0,0,0.4)' },
             transition: { type: 'spring', stiffness: 400, damping: 30 },
-            'data-grid-index': props.index,
+            'data-grid-index': itemIndex.value,
             'data-grid-float': true,
             onDragEnd: handleDragEnd,
           },
@@ -442,6 +1060,171 @@ export const GridItem = defineComponent({
       const itemWidth = dimensions.value.width
       const itemHeight = dimensions.value.height
 
+      // Freeform mode: draggable and resizable, snapped and stored by the container
+      if (grid.value.layoutMode === 'freeform' && commitFreeformRect) {
+        const dims = containerDimensions.value
+        const width = resizeDims.value?.width ?? itemWidth
+        const height = resizeDims.value?.height ?? itemHeight
+        const springCfg = {
+          type: 'spring' as const,
+          stiffness: springConfig.stiffness,
+          damping: springConfig.damping,
+        }
+
+        const settle = (rect: GridRect) => {
+          animate(gridX, rect.left, springCfg)
+          animate(gridY, rect.top, springCfg)
+        }
+
+        const handleDragEnd = () => {
+          settle(
+            commitFreeformRect(
+              itemIndex.value,
+              { left: gridX.get(), top: gridY.get(), width, height },
+              'move'
+            )
+          )
+        }
+
+        const handleResizeStart = (e: PointerEvent) => {
+          e.stopPropagation()
+          ;(e.currentTarget as HTMLElement).setPointerCapture(e.pointerId)
+          resizeStart = { x: e.clientX, y: e.clientY, width, height }
+        }
+
+        const resizedDims = (e: PointerEvent) => {
+          if (!resizeStart) return null
+          return {
+            width: Math.max(1, resizeStart.width + e.clientX - resizeStart.x),
+            height: Math.max(1, resizeStart.height + e.clientY - resizeStart.y),
+          }
+        }
+
+        const handleResizeMove = (e: PointerEvent) => {
+          const dims = resizedDims(e)
+          if (dims) resizeDims.value = dims
+        }
+
+        // The size comes from the pointer-up event itself: the last render may lag behind it
+        const handleResizeEnd = (e: PointerEvent) => {
+          const dims = resizedDims(e)
+          if (!dims) return
+          resizeStart = null
+          settle(
+            commitFreeformRect(
+              itemIndex.value,
+              { left: gridX.get(), top: gridY.get(), ...dims },
+              'resize'
+            )
+          )
+          resizeDims.value = null
+        }
+
+        // A cancelled resize keeps the item's previous size
+        const handleResizeCancel = () => {
+          resizeStart = null
+          resizeDims.value = null
+        }
+
+        return h(
+          motion.div,
+          {
+            key: `freeform-${itemIndex.value}`,
+            drag: true,
+            dragListener: false,
+            dragControls,
+            dragMomentum: false,
+            dragElastic: 0,
+            dragConstraints: {
+              left: 0,
+              right: dims.width - width,
+              top: 0,
+              bottom: dims.height - height,
+            },
+            style: {
+              position: 'absolute',
+              top: 0,
+              left: 0,
+              x: gridX,
+              y: gridY,
+              width: `${width}px`,
+              height: `${height}px`,
+              zIndex: grid.value.getItemZIndex?.(itemIndex.value) ?? 0,
+              cursor: 'grab',
+              touchAction: 'none',
+            },
+            whileDrag: { cursor: 'grabbing' },
+            'data-grid-index': itemIndex.value,
+            'data-grid-freeform': true,
+            onPointerdown: (e: PointerEvent) => dragControls.start(e),
+            onDragEnd: handleDragEnd,
+          },
+          () => [
+            slots.default?.(slotProps.value),
+            h('div', {
+              'aria-hidden': 'true',
+              'data-grid-resize-handle': true,
+              onPointerdown: handleResizeStart,
+              onPointermove: handleResizeMove,
+              onPointerup: handleResizeEnd,
+              onPointercancel: handleResizeCancel,
+              style: {
+                position: 'absolute',
+                right: 0,
+                bottom: 0,
+                width: '16px',
+                height: '16px',
+                cursor: 'nwse-resize',
+                touchAction: 'none',
+              },
+            }),
+          ]
+        )
+      }
+
+      // Stack mode: the front card is swiped horizontally to move through the deck
+      if (grid.value.layoutMode === 'stack' && setStackIndex) {
+        const handleSwipeEnd = (_: unknown, info: PanInfo) => {
+          const threshold = containerDimensions.value.width * 0.25
+          const swipe = info.offset.x + info.velocity.x * 0.2
+          if (swipe < -threshold) {
+            setStackIndex(slot.value + 1)
+          } else if (swipe > threshold) {
+            setStackIndex(slot.value - 1)
+          }
+          // Spring back; if the front card changed, the new position takes over
+          animate(gridX, position.value.left, {
+            type: 'spring',
+            stiffness: springConfig.stiffness,
+            damping: springConfig.damping,
+          })
+        }
+
+        return h(
+          motion.div,
+          {
+            key: `stack-${itemIndex.value}`,
+            drag: isMain.value ? 'x' : false,
+            dragMomentum: false,
+            style: {
+              position: 'absolute',
+              top: 0,
+              left: 0,
+              x: gridX,
+              y: gridY,
+              width: `${itemWidth}px`,
+              height: `${itemHeight}px`,
+              zIndex: grid.value.getItemZIndex?.(itemIndex.value) ?? 0,
+              touchAction: 'pan-y',
+            },
+            'data-grid-index': itemIndex.value,
+            'data-grid-main': isMain.value,
+            onDragEnd: handleSwipeEnd,
+          },
+          () => slots.default?.(slotProps.value)
+        )
+      }
+
       if (props.disableAnimation) {
         return h(
           props.tag,
@@ -452,8 +1235,9 @@ export const GridItem = defineComponent({
               height: `${itemHeight}px`,
               top: `${position.value.top}px`,
               left: `${position.value.left}px`,
+              zIndex: isOverlayItem.value ? 2 : grid.value.getItemZIndex?.(itemIndex.value),
             },
-            'data-grid-index': props.index,
+            'data-grid-index': itemIndex.value,
             'data-grid-main': isMain.value,
           },
           slots.default?.(slotProps.value)
@@ -467,7 +1251,7 @@ export const GridItem = defineComponent({
       return h(
         motion.div,
         {
-          key: `grid-${props.index}`,
+          key: `grid-${itemIndex.value}`,
           style: {
             position: 'absolute',
             top: 0,
@@ -476,8 +1260,9 @@ export const GridItem = defineComponent({
             y: gridY,
             width: `${itemWidth}px`,
             height: `${itemHeight}px`,
+            zIndex: isOverlayItem.value ? 2 : grid.value.getItemZIndex?.(itemIndex.value),
           },
-          'data-grid-index': props.index,
+          'data-grid-index': itemIndex.value,
           'data-grid-main': isMain.value,
         },
         () => slots.default?.(slotProps.value)
@@ -692,17 +1477,18 @@ export const FloatingGridItem = defineComponent({
     )
 
     // Update position when effective size changes (responsive breakpoint change)
-    watch(
-      [() => effectiveSize.value.width, () => effectiveSize.value.height],
-      () => {
-        if (isInitialized.value && containerDimensions.value.width > 0 && containerDimensions.value.height > 0) {
-          const pos = getCornerPosition(currentAnchor.value)
-          const springCfg = { type: 'spring' as const, stiffness: 400, damping: 30 }
-          animate(x, pos.x, springCfg)
-          animate(y, pos.y, springCfg)
-        }
+    watch([() => effectiveSize.value.width, () => effectiveSize.value.height], () => {
+      if (
+        isInitialized.value &&
+        containerDimensions.value.width > 0 &&
+        containerDimensions.value.height > 0
+      ) {
+        const pos = getCornerPosition(currentAnchor.value)
+        const springCfg = { type: 'spring' as const, stiffness: 400, damping: 30 }
+        animate(x, pos.x, springCfg)
+        animate(y, pos.y, springCfg)
       }
-    )
+    })
 
     return () => {
       const dims = containerDimensions.value
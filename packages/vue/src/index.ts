@@ -26,9 +26,35 @@ export type {
     MeetGridOptions,
     MeetGridResult,
     LayoutMode,
+    LayoutModeRegistry,
+    LayoutModeFactory,
     SpringPreset,
     ItemAspectRatio,
+    SelfViewMode,
+    FloatAnchor,
+    FloatItem,
+    FloatStackOptions,
     ContentDimensions,
+    GridRect,
+    GridPadding,
+    LastRowAlign,
+    GridGroup,
+    GroupBounds,
+    LayoutTemplate,
+    TemplateArea,
+    FreeformItemState,
+    FreeformLayoutState,
+    ItemRange,
+    Bubble,
+    OverlayStrip,
+    LayoutScene,
+    SceneSeat,
+    SlotAssigner,
+    SlotAssignment,
+    PrioritySignals,
+    PriorityKey,
+    PriorityPolicy,
+    PriorityOrderer,
 } from '@thangdevalone/meeting-grid-layout-core'
 
 export {
@@ -39,4 +65,17 @@ export {
     getSpringConfig,
     springPresets,
     getAspectRatio,
+    parseLayoutTemplate,
+    registerLayoutMode,
+    unregisterLayoutMode,
+    createFreeformLayout,
+    updateFreeformItem,
+    snapFreeformRect,
+    serializeFreeformLayout,
+    parseFreeformLayout,
+    createSlotAssigner,
+    assignSlots,
+    createPriorityOrderer,
+    getFloatPositions,
+    getNearestFloatAnchor,
 } from '@thangdevalone/meeting-grid-layout-core'